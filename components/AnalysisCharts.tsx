@@ -0,0 +1,254 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { BarChart3, Image as ImageIcon, FileCode } from 'lucide-react';
+import { VideoData } from '../types';
+import { ChartPoint, toChartPoints, createScale, getLogTicks, buildViralityHistogram, buildDurationBuckets } from '../services/chartService';
+import { downloadPng, downloadSvg } from '../services/downloadService';
+
+interface AnalysisChartsProps {
+  videos: VideoData[];
+  highlightedId: string | null;
+  onHighlight: (videoId: string | null) => void; // Hovering a point highlights its table row
+}
+
+// Charts are styled with SVG attributes only, so PNG/SVG exports look the same as on screen
+const WIDTH = 480;
+const HEIGHT = 300;
+const PAD = { top: 16, right: 16, bottom: 40, left: 56 };
+const COLORS = {
+  background: '#0f172a',
+  grid: '#1e293b',
+  axis: '#475569',
+  text: '#94a3b8',
+  point: '#6366f1',
+  highlight: '#f59e0b',
+  bar: '#10b981',
+};
+
+const compact = new Intl.NumberFormat('en-US', { notation: 'compact', compactDisplay: 'short', maximumFractionDigits: 1 });
+
+const plotLeft = PAD.left;
+const plotRight = WIDTH - PAD.right;
+const plotTop = PAD.top;
+const plotBottom = HEIGHT - PAD.bottom;
+
+// Helper: Evenly spaced ticks for a linear axis
+const getLinearTicks = (max: number, count = 5): number[] =>
+  Array.from({ length: count + 1 }, (_, i) => (max / count) * i);
+
+// Helper: Background, gridlines, tick labels and axis titles shared by every chart
+const renderFrame = (
+  xTicks: { value: number; x: number; label: string }[],
+  yTicks: { value: number; y: number; label: string }[],
+  xTitle: string,
+  yTitle: string
+) => (
+  <>
+    <rect x="0" y="0" width={WIDTH} height={HEIGHT} fill={COLORS.background} />
+    {yTicks.map(tick => (
+      <g key={`y${tick.value}`}>
+        <line x1={plotLeft} y1={tick.y} x2={plotRight} y2={tick.y} stroke={COLORS.grid} strokeWidth="1" />
+        <text x={plotLeft - 6} y={tick.y + 3} textAnchor="end" fontSize="10" fill={COLORS.text} fontFamily="sans-serif">{tick.label}</text>
+      </g>
+    ))}
+    {xTicks.map(tick => (
+      <text key={`x${tick.value}`} x={tick.x} y={plotBottom + 14} textAnchor="middle" fontSize="10" fill={COLORS.text} fontFamily="sans-serif">{tick.label}</text>
+    ))}
+    <line x1={plotLeft} y1={plotBottom} x2={plotRight} y2={plotBottom} stroke={COLORS.axis} strokeWidth="1" />
+    <text x={(plotLeft + plotRight) / 2} y={HEIGHT - 6} textAnchor="middle" fontSize="11" fill={COLORS.text} fontFamily="sans-serif">{xTitle}</text>
+    <text x="12" y={(plotTop + plotBottom) / 2} textAnchor="middle" fontSize="11" fill={COLORS.text} fontFamily="sans-serif" transform={`rotate(-90 12 ${(plotTop + plotBottom) / 2})`}>{yTitle}</text>
+  </>
+);
+
+// A titled chart with PNG/SVG export; `children` receives the ref for the <svg> to export
+const ChartCard: React.FC<{
+  title: string;
+  filename: string;
+  children: (ref: React.RefObject<SVGSVGElement>) => React.ReactNode;
+}> = ({ title, filename, children }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const exportAs = (format: 'png' | 'svg') => {
+    if (!svgRef.current) return;
+    setExportError(null);
+    if (format === 'svg') downloadSvg(svgRef.current, filename);
+    else downloadPng(svgRef.current, filename).catch((error: any) => setExportError(`PNG export failed: ${error?.message || error}`));
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-700/60 bg-slate-900/60 p-3">
+      <div className="flex items-center justify-between gap-2 mb-2 px-1">
+        <h4 className="text-xs font-bold text-slate-400 uppercase tracking-widest">{title}</h4>
+        <div className="flex items-center gap-1">
+          <button onClick={() => exportAs('png')} className="flex items-center gap-1 text-[10px] text-slate-500 hover:text-slate-200 px-2 py-1 rounded-lg hover:bg-slate-800 transition-colors cursor-pointer" title="Download as PNG">
+            <ImageIcon size={12} /> PNG
+          </button>
+          <button onClick={() => exportAs('svg')} className="flex items-center gap-1 text-[10px] text-slate-500 hover:text-slate-200 px-2 py-1 rounded-lg hover:bg-slate-800 transition-colors cursor-pointer" title="Download as SVG">
+            <FileCode size={12} /> SVG
+          </button>
+        </div>
+      </div>
+      {exportError && <p className="text-[10px] text-red-400 px-1 mb-2">{exportError}</p>}
+      {children(svgRef)}
+    </div>
+  );
+};
+
+// Helper: One interactive video dot. Hover highlights the table row, click opens the video.
+const renderPoint = (
+  point: ChartPoint,
+  cx: number,
+  cy: number,
+  r: number,
+  highlightedId: string | null,
+  onHighlight: (videoId: string | null) => void,
+  label: string
+) => {
+  const isHighlighted = point.video.id === highlightedId;
+  return (
+    <circle
+      key={point.video.id}
+      cx={cx}
+      cy={cy}
+      r={isHighlighted ? r + 2 : r}
+      fill={isHighlighted ? COLORS.highlight : COLORS.point}
+      fillOpacity={isHighlighted ? 1 : 0.6}
+      stroke={isHighlighted ? '#ffffff' : COLORS.point}
+      strokeWidth="1"
+      style={{ cursor: 'pointer' }}
+      onMouseEnter={() => onHighlight(point.video.id)}
+      onMouseLeave={() => onHighlight(null)}
+      onClick={() => window.open(point.video.url, '_blank')}
+    >
+      <title>{`${point.video.title}\n${label}`}</title>
+    </circle>
+  );
+};
+
+// Scatter, histogram and bar charts over the analysis results
+export const AnalysisCharts: React.FC<AnalysisChartsProps> = ({ videos, highlightedId, onHighlight }) => {
+  const points = useMemo(() => toChartPoints(videos), [videos]);
+  const histogram = useMemo(() => buildViralityHistogram(videos), [videos]);
+  const durationBuckets = useMemo(() => buildDurationBuckets(points), [points]);
+  const dateStr = new Date().toISOString().slice(0, 10);
+
+  // Views vs age (log-log), point area by duration
+  const maxAge = Math.max(1, ...points.map(p => p.ageDays));
+  const minAge = Math.min(maxAge / 10, ...points.map(p => p.ageDays));
+  const maxViews = Math.max(10, ...points.map(p => p.views));
+  const minViews = Math.max(1, Math.min(maxViews / 10, ...points.map(p => Math.max(1, p.views))));
+  const maxDuration = Math.max(1, ...points.map(p => p.durationSeconds));
+  const ageX = createScale(minAge, maxAge, plotLeft + 8, plotRight - 8, true);
+  const viewsY = createScale(minViews, maxViews, plotBottom - 8, plotTop + 8, true);
+
+  // Likes and comments per 1,000 views
+  const maxLikes = Math.max(1, ...points.map(p => p.likesPerThousand));
+  const maxComments = Math.max(1, ...points.map(p => p.commentsPerThousand));
+  const likesX = createScale(0, maxLikes, plotLeft + 8, plotRight - 8);
+  const commentsY = createScale(0, maxComments, plotBottom - 8, plotTop + 8);
+
+  const maxBinCount = Math.max(1, ...histogram.map(bin => bin.count));
+  const maxBucketViews = Math.max(1, ...durationBuckets.map(bucket => bucket.medianViews || 0));
+
+  return (
+    <div className="mb-4">
+      <h3 className="text-sm font-bold text-slate-300 uppercase tracking-widest flex items-center gap-2 mb-3 px-1">
+        <BarChart3 size={16} className="text-indigo-400" /> Charts
+        <span className="text-[10px] text-slate-500 font-normal normal-case tracking-normal">Hover a point to find its row, click to open the video</span>
+      </h3>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <ChartCard title="Views vs Age" filename={`views_vs_age_${dateStr}`}>
+          {ref => (
+            <svg ref={ref} viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+              {renderFrame(
+                getLogTicks(minAge, maxAge).filter(t => t >= minAge && t <= maxAge).map(t => ({ value: t, x: ageX(t), label: `${compact.format(t)}d` })),
+                getLogTicks(minViews, maxViews).filter(t => t >= minViews && t <= maxViews).map(t => ({ value: t, y: viewsY(t), label: compact.format(t) })),
+                'Age (days, log scale) · point size = duration',
+                'Views (log scale)'
+              )}
+              {points.map(p => renderPoint(
+                p, ageX(p.ageDays), viewsY(Math.max(minViews, p.views)), 3 + 9 * Math.sqrt(p.durationSeconds / maxDuration),
+                highlightedId, onHighlight, `${compact.format(p.views)} views · ${Math.round(p.ageDays)}d old · ${Math.round(p.durationSeconds / 60)}m`
+              ))}
+            </svg>
+          )}
+        </ChartCard>
+
+        <ChartCard title="Virality Distribution" filename={`virality_distribution_${dateStr}`}>
+          {ref => (
+            <svg ref={ref} viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+              {renderFrame(
+                histogram.filter((_, i) => i % 2 === 0).map((bin, i) => ({
+                  value: bin.from,
+                  x: plotLeft + ((i * 2 + 0.5) / histogram.length) * (plotRight - plotLeft),
+                  label: compact.format(bin.from),
+                })),
+                getLinearTicks(maxBinCount, Math.min(5, maxBinCount)).map(t => ({ value: t, y: plotBottom - (t / maxBinCount) * (plotBottom - plotTop), label: compact.format(t) })),
+                'Virality score (log bins)',
+                'Videos'
+              )}
+              {histogram.map((bin, i) => {
+                const barWidth = (plotRight - plotLeft) / histogram.length;
+                const height = (bin.count / maxBinCount) * (plotBottom - plotTop);
+                return (
+                  <rect key={i} x={plotLeft + i * barWidth + 1} y={plotBottom - height} width={Math.max(1, barWidth - 2)} height={height} fill={COLORS.point} rx="2">
+                    <title>{`${compact.format(bin.from)}-${compact.format(bin.to)}: ${bin.count} video${bin.count === 1 ? '' : 's'}`}</title>
+                  </rect>
+                );
+              })}
+            </svg>
+          )}
+        </ChartCard>
+
+        <ChartCard title="Median Views by Duration" filename={`views_by_duration_${dateStr}`}>
+          {ref => (
+            <svg ref={ref} viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+              {renderFrame(
+                durationBuckets.map((bucket, i) => ({
+                  value: i,
+                  x: plotLeft + ((i + 0.5) / durationBuckets.length) * (plotRight - plotLeft),
+                  label: bucket.label,
+                })),
+                getLinearTicks(maxBucketViews).map(t => ({ value: t, y: plotBottom - (t / maxBucketViews) * (plotBottom - plotTop), label: compact.format(t) })),
+                'Duration',
+                'Median views'
+              )}
+              {durationBuckets.map((bucket, i) => {
+                const slot = (plotRight - plotLeft) / durationBuckets.length;
+                const height = ((bucket.medianViews || 0) / maxBucketViews) * (plotBottom - plotTop);
+                const x = plotLeft + i * slot + slot * 0.2;
+                return (
+                  <g key={bucket.label}>
+                    <rect x={x} y={plotBottom - height} width={slot * 0.6} height={height} fill={COLORS.bar} rx="2">
+                      <title>{`${bucket.label}: ${bucket.count} video${bucket.count === 1 ? '' : 's'}, median ${bucket.medianViews === null ? '—' : compact.format(bucket.medianViews)} views`}</title>
+                    </rect>
+                    <text x={x + slot * 0.3} y={plotBottom - height - 4} textAnchor="middle" fontSize="10" fill={COLORS.text} fontFamily="sans-serif">
+                      {bucket.count > 0 ? `n=${bucket.count}` : ''}
+                    </text>
+                  </g>
+                );
+              })}
+            </svg>
+          )}
+        </ChartCard>
+
+        <ChartCard title="Likes & Comments per 1K Views" filename={`engagement_ratios_${dateStr}`}>
+          {ref => (
+            <svg ref={ref} viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+              {renderFrame(
+                getLinearTicks(maxLikes).map(t => ({ value: t, x: likesX(t), label: compact.format(t) })),
+                getLinearTicks(maxComments).map(t => ({ value: t, y: commentsY(t), label: compact.format(t) })),
+                'Likes per 1K views',
+                'Comments per 1K views'
+              )}
+              {points.map(p => renderPoint(
+                p, likesX(p.likesPerThousand), commentsY(p.commentsPerThousand), 4,
+                highlightedId, onHighlight, `${p.likesPerThousand.toFixed(1)} likes · ${p.commentsPerThousand.toFixed(2)} comments per 1K views`
+              ))}
+            </svg>
+          )}
+        </ChartCard>
+      </div>
+    </div>
+  );
+};
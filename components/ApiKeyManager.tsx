@@ -1,47 +1,72 @@
 import React, { useState, useEffect } from 'react';
-import { Settings, X, CheckCircle2, Youtube, Key, Zap, RotateCcw, ExternalLink } from 'lucide-react';
+import { Settings, X, CheckCircle2, Youtube, RotateCcw, ExternalLink, Shuffle, RefreshCw, Database, Trash2 } from 'lucide-react';
 import { TranscriptProvider } from '../types';
+import { TRANSCRIPT_PROVIDERS, DEFAULT_TRANSCRIPT_PROVIDER, getTranscriptProvider } from '../services/transcriptProviders';
 
 interface ApiKeyManagerProps {
   youtubeApiKey: string;
   setYoutubeApiKey: (key: string) => void;
-  rapidApiKey: string;
-  setRapidApiKey: (key: string) => void;
-  supadataApiKey: string;
-  setSupadataApiKey: (key: string) => void;
+  // Transcript provider keys and usage, keyed by provider id
+  providerKeys: Record<string, string>;
+  setProviderKey: (provider: TranscriptProvider, key: string) => void;
   transcriptProvider: TranscriptProvider;
   setTranscriptProvider: (provider: TranscriptProvider) => void;
   // Usage props
-  supadataUsage: number;
-  setSupadataUsage: (val: number) => void;
-  rapidApiUsage: number;
-  setRapidApiUsage: (val: number) => void;
+  providerUsage: Record<string, number>;
+  setProviderUsage: (provider: TranscriptProvider, val: number) => void;
+  // Fall back to the other keyed providers when the selected one fails
+  failoverEnabled: boolean;
+  setFailoverEnabled: (val: boolean) => void;
+  // Automatic retries for transient network/API failures
+  retryLimit: number;
+  setRetryLimit: (val: number) => void;
+  // Local cache: how long video statistics stay fresh, and a way to empty it
+  statsTtlHours: number;
+  setStatsTtlHours: (val: number) => void;
+  onClearCache: () => Promise<void>;
+  // YouTube quota props
+  youtubeQuotaUsed: number;
+  youtubeQuotaLimit: number;
+  setYoutubeQuotaLimit: (val: number) => void;
 }
 
 export const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({ 
   youtubeApiKey, 
   setYoutubeApiKey,
-  rapidApiKey,
-  setRapidApiKey,
-  supadataApiKey,
-  setSupadataApiKey,
+  providerKeys,
+  setProviderKey,
   transcriptProvider,
   setTranscriptProvider,
-  supadataUsage,
-  setSupadataUsage,
-  rapidApiUsage,
-  setRapidApiUsage
+  providerUsage,
+  setProviderUsage,
+  failoverEnabled,
+  setFailoverEnabled,
+  retryLimit,
+  setRetryLimit,
+  statsTtlHours,
+  setStatsTtlHours,
+  onClearCache,
+  youtubeQuotaUsed,
+  youtubeQuotaLimit,
+  setYoutubeQuotaLimit
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   
   // Local state for inputs
   const [ytInput, setYtInput] = useState('');
-  const [rapidInput, setRapidInput] = useState('');
-  const [supadataInput, setSupadataInput] = useState('');
+  const [providerInputs, setProviderInputs] = useState<Record<string, string>>({});
 
   // Local state for usage inputs
-  const [localSupadataUsage, setLocalSupadataUsage] = useState(supadataUsage);
-  const [localRapidUsage, setLocalRapidUsage] = useState(rapidApiUsage);
+  const [localProviderUsage, setLocalProviderUsage] = useState<Record<string, number>>({});
+  const [localQuotaLimit, setLocalQuotaLimit] = useState(youtubeQuotaLimit);
+  const [localRetryLimit, setLocalRetryLimit] = useState(retryLimit);
+  const [localStatsTtl, setLocalStatsTtl] = useState(statsTtlHours);
+  const [cacheCleared, setCacheCleared] = useState(false);
+
+  const selectedProvider = getTranscriptProvider(transcriptProvider) || getTranscriptProvider(DEFAULT_TRANSCRIPT_PROVIDER)!;
+  const providerKey = providerKeys[selectedProvider.id] || '';
+  const providerInput = providerInputs[selectedProvider.id] || '';
+  const setProviderInput = (val: string) => setProviderInputs(prev => ({ ...prev, [selectedProvider.id]: val }));
 
   // Helper to mask key
   const maskKey = (key: string) => {
@@ -52,29 +77,40 @@ export const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({
   // Sync props to local state when opening or when props change
   useEffect(() => {
     setYtInput(maskKey(youtubeApiKey));
-    setRapidInput(maskKey(rapidApiKey));
-    setSupadataInput(maskKey(supadataApiKey));
-    setLocalSupadataUsage(supadataUsage);
-    setLocalRapidUsage(rapidApiUsage);
-  }, [youtubeApiKey, rapidApiKey, supadataApiKey, supadataUsage, rapidApiUsage, isOpen]);
+    setProviderInputs(Object.fromEntries(TRANSCRIPT_PROVIDERS.map(p => [p.id, maskKey(providerKeys[p.id] || '')])));
+    setLocalProviderUsage({ ...providerUsage });
+    setLocalQuotaLimit(youtubeQuotaLimit);
+    setLocalRetryLimit(retryLimit);
+    setLocalStatsTtl(statsTtlHours);
+    setCacheCleared(false);
+  }, [youtubeApiKey, providerKeys, providerUsage, youtubeQuotaLimit, retryLimit, statsTtlHours, isOpen]);
 
   const handleSave = () => {
     const newYtKey = ytInput.startsWith('••••') ? youtubeApiKey : ytInput.trim();
     if (newYtKey !== youtubeApiKey) setYoutubeApiKey(newYtKey);
 
-    const newRapidKey = rapidInput.startsWith('••••') ? rapidApiKey : rapidInput.trim();
-    if (newRapidKey !== rapidApiKey) setRapidApiKey(newRapidKey);
-
-    const newSupadataKey = supadataInput.startsWith('••••') ? supadataApiKey : supadataInput.trim();
-    if (newSupadataKey !== supadataApiKey) setSupadataApiKey(newSupadataKey);
+    TRANSCRIPT_PROVIDERS.forEach(provider => {
+      const currentKey = providerKeys[provider.id] || '';
+      const input = providerInputs[provider.id] || '';
+      const newKey = input.startsWith('••••') ? currentKey : input.trim();
+      if (newKey !== currentKey) setProviderKey(provider.id, newKey);
 
-    // Save Usage Counts
-    setSupadataUsage(Math.min(100, Math.max(0, localSupadataUsage)));
-    setRapidApiUsage(Math.min(20, Math.max(0, localRapidUsage)));
+      // Save Usage Counts
+      const usage = localProviderUsage[provider.id] || 0;
+      setProviderUsage(provider.id, Math.min(provider.quotaLimit, Math.max(0, usage)));
+    });
+    setYoutubeQuotaLimit(Math.max(1, localQuotaLimit));
+    setRetryLimit(Math.max(0, localRetryLimit));
+    setStatsTtlHours(Math.max(0, localStatsTtl));
 
     setIsOpen(false);
   };
   
+  const handleClearCache = async () => {
+    await onClearCache();
+    setCacheCleared(true);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter') {
       handleSave();
@@ -102,7 +138,8 @@ export const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({
   };
 
   // Determine if the currently selected provider is actually active (has a key)
-  const isProviderActive = transcriptProvider === 'supadata' ? !!supadataApiKey : !!rapidApiKey;
+  const isProviderActive = !!providerKey;
+  const ProviderIcon = selectedProvider.theme.icon;
 
   return (
     <>
@@ -120,12 +157,8 @@ export const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({
            <div className="h-4 w-[1px] bg-slate-700 mx-1"></div>
            
            {/* Provider Status (Icon Only) */}
-           <div className="flex items-center gap-2" title={`Selected: ${transcriptProvider === 'supadata' ? 'Supadata' : 'RapidAPI'} (${isProviderActive ? 'Active' : 'No Key'})`}>
-             {transcriptProvider === 'supadata' ? (
-                <Zap size={18} className={isProviderActive ? "text-yellow-400" : "text-slate-600"} />
-             ) : (
-                <Key size={18} className={isProviderActive ? "text-blue-400" : "text-slate-600"} />
-             )}
+           <div className="flex items-center gap-2" title={`Selected: ${selectedProvider.shortName} (${isProviderActive ? 'Active' : 'No Key'})`}>
+             <ProviderIcon size={18} className={isProviderActive ? selectedProvider.theme.text : "text-slate-600"} />
               <div className={`w-1.5 h-1.5 rounded-full ${isProviderActive ? "bg-emerald-500 shadow-[0_0_8px_rgba(16,185,129,0.8)]" : "bg-slate-700"}`}></div>
            </div>
         </div>
@@ -189,6 +222,26 @@ export const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({
                         Get API Key <ExternalLink size={10} />
                      </a>
                    </div>
+
+                   {/* Daily Quota Budget */}
+                   <div className="flex items-center justify-between pt-3 border-t border-slate-800/50">
+                        <div className="flex flex-col">
+                           <label className="text-xs font-semibold text-slate-400 flex items-center gap-1.5">
+                               <RotateCcw size={12} /> Daily Quota
+                           </label>
+                           <span className="text-[10px] text-slate-600">{youtubeQuotaUsed.toLocaleString()} units used today · resets midnight PT</span>
+                        </div>
+                        <div className="flex items-center gap-2 bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5">
+                           <input
+                               type="number"
+                               min="1"
+                               value={localQuotaLimit}
+                               onChange={(e) => setLocalQuotaLimit(parseInt(e.target.value) || 0)}
+                               className="w-16 bg-transparent text-right text-sm text-slate-200 outline-none font-mono focus:text-red-400"
+                           />
+                           <span className="text-xs text-slate-500 font-medium">units</span>
+                        </div>
+                   </div>
                 </div>
 
                 <div className="h-[1px] bg-slate-800 w-full my-4"></div>
@@ -199,124 +252,143 @@ export const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({
                    
                    {/* Compact Row for Selection */}
                    <div className="flex gap-3">
-                      <button
-                        onClick={() => setTranscriptProvider('supadata')}
-                        className={`flex-1 py-2 px-3 rounded-lg border text-xs font-medium transition-all flex items-center justify-center gap-2 ${transcriptProvider === 'supadata' ? 'bg-indigo-600/20 border-indigo-500 text-white shadow-inner' : 'bg-slate-950 border-slate-700 text-slate-400 hover:bg-slate-800'}`}
-                      >
-                         <Zap size={14} className={transcriptProvider === 'supadata' ? 'text-yellow-400' : 'text-slate-500'} />
-                         Supadata AI (Default)
-                      </button>
-
-                      <button
-                        onClick={() => setTranscriptProvider('rapid-api')}
-                        className={`flex-1 py-2 px-3 rounded-lg border text-xs font-medium transition-all flex items-center justify-center gap-2 ${transcriptProvider === 'rapid-api' ? 'bg-indigo-600/20 border-indigo-500 text-white shadow-inner' : 'bg-slate-950 border-slate-700 text-slate-400 hover:bg-slate-800'}`}
-                      >
-                         <Key size={14} className={transcriptProvider === 'rapid-api' ? 'text-blue-400' : 'text-slate-500'} />
-                         RapidAPI (Veritoolz)
-                      </button>
+                      {TRANSCRIPT_PROVIDERS.map(provider => {
+                        const Icon = provider.theme.icon;
+                        const isSelected = selectedProvider.id === provider.id;
+                        return (
+                          <button
+                            key={provider.id}
+                            onClick={() => setTranscriptProvider(provider.id)}
+                            className={`flex-1 py-2 px-3 rounded-lg border text-xs font-medium transition-all flex items-center justify-center gap-2 ${isSelected ? 'bg-indigo-600/20 border-indigo-500 text-white shadow-inner' : 'bg-slate-950 border-slate-700 text-slate-400 hover:bg-slate-800'}`}
+                          >
+                             <Icon size={14} className={isSelected ? provider.theme.text : 'text-slate-500'} />
+                             {provider.name}{provider.id === DEFAULT_TRANSCRIPT_PROVIDER ? ' (Default)' : ''}
+                          </button>
+                        );
+                      })}
                    </div>
+
+                   {/* Failover Toggle */}
+                   <button
+                     onClick={() => setFailoverEnabled(!failoverEnabled)}
+                     className="w-full flex items-center justify-between gap-3 px-3 py-2 rounded-lg border border-slate-800 bg-slate-950/30 hover:bg-slate-800/40 transition-all cursor-pointer text-left"
+                     title="When the selected provider fails or runs out of quota, try the next provider that has a key"
+                   >
+                      <span className="flex items-center gap-2 text-xs font-medium text-slate-300">
+                         <Shuffle size={14} className={failoverEnabled ? 'text-indigo-400' : 'text-slate-500'} />
+                         Automatic failover
+                         <span className="text-[10px] text-slate-600 font-normal">
+                           {failoverEnabled
+                             ? [selectedProvider, ...TRANSCRIPT_PROVIDERS.filter(p => p.id !== selectedProvider.id && providerKeys[p.id])].map(p => p.shortName).join(' → ')
+                             : 'Off'}
+                         </span>
+                      </span>
+                      <span className={`w-8 h-4 rounded-full relative transition-colors ${failoverEnabled ? 'bg-indigo-600' : 'bg-slate-700'}`}>
+                         <span className={`absolute top-0.5 w-3 h-3 rounded-full bg-white transition-all ${failoverEnabled ? 'left-4' : 'left-0.5'}`}></span>
+                      </span>
+                   </button>
                 </div>
 
                 {/* 3. Provider API Key & Usage Inputs */}
-                {transcriptProvider === 'supadata' && (
-                    <div className="space-y-4 animate-fade-in bg-slate-950/30 p-4 rounded-xl border border-slate-800">
-                        <div className="space-y-2">
-                            <div className="flex items-center justify-between">
-                                <label className="text-sm font-semibold text-slate-300 flex items-center gap-2">
-                                    <Zap size={16} className="text-yellow-500" />
-                                    Supadata API Key
-                                </label>
-                                {supadataApiKey && <CheckCircle2 size={16} className="text-emerald-500" />}
-                            </div>
-                            <input 
-                                type="text" 
-                                value={supadataInput}
-                                onChange={(e) => setSupadataInput(e.target.value)}
-                                onKeyDown={handleKeyDown}
-                                onFocus={(e) => handleFocus(e, supadataApiKey, setSupadataInput)}
-                                onBlur={(e) => handleBlur(e, supadataApiKey, setSupadataInput)}
-                                className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2.5 text-sm text-slate-200 focus:ring-2 focus:ring-yellow-500 focus:border-yellow-500 outline-none placeholder:text-slate-700 font-mono transition-all"
-                                placeholder="Paste your Supadata key here"
-                            />
-                            <div className="flex justify-end">
-                                <a href="https://supadata.ai" target="_blank" rel="noreferrer" className="text-[10px] text-indigo-400 hover:text-indigo-300 flex items-center gap-1">
-                                    Get API Key from Supadata.ai <ExternalLink size={10} />
-                                </a>
-                            </div>
+                <div key={selectedProvider.id} className="space-y-4 animate-fade-in bg-slate-950/30 p-4 rounded-xl border border-slate-800">
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <label className="text-sm font-semibold text-slate-300 flex items-center gap-2">
+                                <ProviderIcon size={16} className={selectedProvider.theme.text} />
+                                {selectedProvider.name} Key
+                            </label>
+                            {providerKey && <CheckCircle2 size={16} className="text-emerald-500" />}
                         </div>
-
-                        {/* Minimal Side-by-Side Usage Counter */}
-                        <div className="flex items-center justify-between pt-3 border-t border-slate-800/50">
-                             <div className="flex flex-col">
-                                <label className="text-xs font-semibold text-slate-400 flex items-center gap-1.5">
-                                    <RotateCcw size={12} /> Current Usage
-                                </label>
-                                <span className="text-[10px] text-slate-600">Manual Sync</span>
-                             </div>
-                             <div className="flex items-center gap-2 bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5">
-                                <input 
-                                    type="number"
-                                    min="0"
-                                    max="100"
-                                    value={localSupadataUsage}
-                                    onChange={(e) => setLocalSupadataUsage(parseInt(e.target.value) || 0)}
-                                    className="w-12 bg-transparent text-right text-sm text-slate-200 outline-none font-mono focus:text-yellow-400"
-                                />
-                                <span className="text-xs text-slate-500 font-medium">/ 100</span>
-                             </div>
+                        <input 
+                            type="text" 
+                            value={providerInput}
+                            onChange={(e) => setProviderInput(e.target.value)}
+                            onKeyDown={handleKeyDown}
+                            onFocus={(e) => handleFocus(e, providerKey, setProviderInput)}
+                            onBlur={(e) => handleBlur(e, providerKey, setProviderInput)}
+                            className={`w-full bg-slate-900 border border-slate-700 rounded-lg p-2.5 text-sm text-slate-200 focus:ring-2 ${selectedProvider.theme.focus} outline-none placeholder:text-slate-700 font-mono transition-all`}
+                            placeholder={selectedProvider.keyPlaceholder}
+                        />
+                        <div className="flex justify-end">
+                            <a href={selectedProvider.keyUrl} target="_blank" rel="noreferrer" className="text-[10px] text-indigo-400 hover:text-indigo-300 flex items-center gap-1">
+                                {selectedProvider.keyUrlLabel} <ExternalLink size={10} />
+                            </a>
                         </div>
                     </div>
-                )}
 
-                {transcriptProvider === 'rapid-api' && (
-                    <div className="space-y-4 animate-fade-in bg-slate-950/30 p-4 rounded-xl border border-slate-800">
-                        <div className="space-y-2">
-                            <div className="flex items-center justify-between">
-                                <label className="text-sm font-semibold text-slate-300 flex items-center gap-2">
-                                    <Key size={16} className="text-blue-500" />
-                                    RapidAPI Key (Veritoolz)
-                                </label>
-                                {rapidApiKey && <CheckCircle2 size={16} className="text-emerald-500" />}
-                            </div>
+                    {/* Minimal Side-by-Side Usage Counter */}
+                    <div className="flex items-center justify-between pt-3 border-t border-slate-800/50">
+                         <div className="flex flex-col">
+                            <label className="text-xs font-semibold text-slate-400 flex items-center gap-1.5">
+                                <RotateCcw size={12} /> Current Usage
+                            </label>
+                            <span className="text-[10px] text-slate-600">Manual Sync</span>
+                         </div>
+                         <div className="flex items-center gap-2 bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5">
                             <input 
-                                type="text" 
-                                value={rapidInput}
-                                onChange={(e) => setRapidInput(e.target.value)}
-                                onKeyDown={handleKeyDown}
-                                onFocus={(e) => handleFocus(e, rapidApiKey, setRapidInput)}
-                                onBlur={(e) => handleBlur(e, rapidApiKey, setRapidInput)}
-                                className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2.5 text-sm text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none placeholder:text-slate-700 font-mono transition-all"
-                                placeholder="Paste your RapidAPI key here"
+                                type="number"
+                                min="0"
+                                max={selectedProvider.quotaLimit}
+                                value={localProviderUsage[selectedProvider.id] || 0}
+                                onChange={(e) => setLocalProviderUsage(prev => ({ ...prev, [selectedProvider.id]: parseInt(e.target.value) || 0 }))}
+                                className="w-12 bg-transparent text-right text-sm text-slate-200 outline-none font-mono"
                             />
-                            <div className="flex justify-end">
-                                <a href="https://rapidapi.com/veritoolz/api/youtube-transcripts" target="_blank" rel="noreferrer" className="text-[10px] text-indigo-400 hover:text-indigo-300 flex items-center gap-1">
-                                    Get API Key from RapidAPI <ExternalLink size={10} />
-                                </a>
-                            </div>
-                        </div>
+                            <span className="text-xs text-slate-500 font-medium">/ {selectedProvider.quotaLimit}</span>
+                         </div>
+                    </div>
+                </div>
 
-                         {/* Minimal Side-by-Side Usage Counter */}
-                         <div className="flex items-center justify-between pt-3 border-t border-slate-800/50">
-                             <div className="flex flex-col">
-                                <label className="text-xs font-semibold text-slate-400 flex items-center gap-1.5">
-                                    <RotateCcw size={12} /> Current Usage
-                                </label>
-                                <span className="text-[10px] text-slate-600">Manual Sync</span>
-                             </div>
-                             <div className="flex items-center gap-2 bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5">
-                                <input 
-                                    type="number"
-                                    min="0"
-                                    max="20"
-                                    value={localRapidUsage}
-                                    onChange={(e) => setLocalRapidUsage(parseInt(e.target.value) || 0)}
-                                    className="w-12 bg-transparent text-right text-sm text-slate-200 outline-none font-mono focus:text-blue-400"
-                                />
-                                <span className="text-xs text-slate-500 font-medium">/ 20</span>
-                             </div>
+                {/* 4. Network Retries */}
+                <div className="flex items-center justify-between pt-4 border-t border-slate-800">
+                     <div className="flex flex-col">
+                        <label className="text-xs font-semibold text-slate-400 flex items-center gap-1.5">
+                            <RefreshCw size={12} /> Automatic Retries
+                        </label>
+                        <span className="text-[10px] text-slate-600">Per request, on 429 / 5xx / network errors</span>
+                     </div>
+                     <div className="flex items-center gap-2 bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5">
+                        <input
+                            type="number"
+                            min="0"
+                            max="10"
+                            value={localRetryLimit}
+                            onChange={(e) => setLocalRetryLimit(parseInt(e.target.value) || 0)}
+                            className="w-12 bg-transparent text-right text-sm text-slate-200 outline-none font-mono"
+                        />
+                        <span className="text-xs text-slate-500 font-medium">times</span>
+                     </div>
+                </div>
+
+                {/* 5. Local Cache */}
+                <div className="flex items-center justify-between pt-4 border-t border-slate-800">
+                     <div className="flex flex-col">
+                        <label className="text-xs font-semibold text-slate-400 flex items-center gap-1.5">
+                            <Database size={12} /> Cache Video & Channel Stats For
+                        </label>
+                        <span className="text-[10px] text-slate-600">Transcripts are cached permanently. 0 = always refetch stats</span>
+                     </div>
+                     <div className="flex items-center gap-2">
+                        <button
+                            onClick={handleClearCache}
+                            disabled={cacheCleared}
+                            className="flex items-center gap-1 text-[10px] px-2 py-1.5 rounded-lg border border-slate-700 text-slate-400 hover:text-red-400 hover:border-red-500/30 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-default"
+                            title="Delete every cached video, channel and transcript"
+                        >
+                            <Trash2 size={10} /> {cacheCleared ? 'Cleared' : 'Clear'}
+                        </button>
+                        <div className="flex items-center gap-2 bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5">
+                            <input
+                                type="number"
+                                min="0"
+                                max="720"
+                                value={localStatsTtl}
+                                onChange={(e) => setLocalStatsTtl(parseInt(e.target.value) || 0)}
+                                className="w-12 bg-transparent text-right text-sm text-slate-200 outline-none font-mono"
+                            />
+                            <span className="text-xs text-slate-500 font-medium">hours</span>
                         </div>
-                    </div>
-                )}
+                     </div>
+                </div>
              </div>
 
              {/* Modal Footer */}
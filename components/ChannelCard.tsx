@@ -0,0 +1,59 @@
+import React from 'react';
+import { Users, Eye, Film, Calendar, MapPin } from 'lucide-react';
+import { ChannelProfile } from '../types';
+
+interface ChannelCardProps {
+  channel: ChannelProfile;
+  resultCount?: number; // Videos of this channel in the current results
+}
+
+const compact = new Intl.NumberFormat('en-US', { notation: 'compact', compactDisplay: 'short' });
+
+const formatCount = (value?: string) => {
+  const num = parseInt(value || '');
+  return isNaN(num) ? '—' : compact.format(num);
+};
+
+// Channel header: avatar, name and lifetime statistics
+export const ChannelCard: React.FC<ChannelCardProps> = ({ channel, resultCount }) => (
+  <div className="bg-slate-900/60 border border-slate-700/50 rounded-2xl p-4 shadow-lg flex flex-col sm:flex-row sm:items-center gap-4">
+    <div className="flex items-center gap-4 flex-1 min-w-0">
+      {channel.thumbnail
+        ? <img src={channel.thumbnail} alt={channel.title} className="w-14 h-14 rounded-full border border-slate-700/50 object-cover shrink-0" />
+        : <div className="w-14 h-14 rounded-full bg-slate-800 border border-slate-700/50 flex items-center justify-center text-slate-500 shrink-0"><Users size={20} /></div>}
+      <div className="min-w-0">
+        <a
+          href={`https://www.youtube.com/channel/${channel.id}`}
+          target="_blank"
+          rel="noreferrer"
+          className="text-base font-bold text-slate-100 hover:text-indigo-400 transition-colors truncate block"
+          title={channel.title}
+        >
+          {channel.title}
+        </a>
+        <div className="text-xs text-slate-500 flex flex-wrap items-center gap-x-3 gap-y-1 mt-1">
+          {channel.customUrl && <span className="text-slate-400">{channel.customUrl}</span>}
+          {channel.publishedAt && (
+            <span className="flex items-center gap-1"><Calendar size={12} /> Since {new Date(channel.publishedAt).toLocaleDateString()}</span>
+          )}
+          {channel.country && <span className="flex items-center gap-1"><MapPin size={12} /> {channel.country}</span>}
+          {resultCount !== undefined && <span>{resultCount} in results</span>}
+        </div>
+      </div>
+    </div>
+    <div className="flex gap-6 shrink-0">
+      <div title={channel.subscriberCount ? parseInt(channel.subscriberCount).toLocaleString() : 'Subscriber count hidden'}>
+        <div className="text-lg font-black text-white flex items-center gap-1.5"><Users size={14} className="text-indigo-400" /> {channel.subscriberCount ? formatCount(channel.subscriberCount) : 'Hidden'}</div>
+        <div className="text-[10px] text-slate-500 uppercase font-bold tracking-wider">Subscribers</div>
+      </div>
+      <div title={parseInt(channel.viewCount).toLocaleString()}>
+        <div className="text-lg font-black text-white flex items-center gap-1.5"><Eye size={14} className="text-emerald-400" /> {formatCount(channel.viewCount)}</div>
+        <div className="text-[10px] text-slate-500 uppercase font-bold tracking-wider">Total Views</div>
+      </div>
+      <div>
+        <div className="text-lg font-black text-white flex items-center gap-1.5"><Film size={14} className="text-amber-400" /> {formatCount(channel.videoCount)}</div>
+        <div className="text-[10px] text-slate-500 uppercase font-bold tracking-wider">Videos</div>
+      </div>
+    </div>
+  </div>
+);
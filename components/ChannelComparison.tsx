@@ -0,0 +1,161 @@
+import React from 'react';
+import { Users, Download, GitCompare } from 'lucide-react';
+import { ChannelComparison as ChannelComparisonData, formatCadence, formatDuration } from '../services/channelComparisonService';
+
+interface ChannelComparisonProps {
+  comparisons: ChannelComparisonData[];
+  onExport: () => void;
+}
+
+const compact = new Intl.NumberFormat('en-US', { notation: 'compact', compactDisplay: 'short' });
+
+// Metric rows; `value` feeds the "best" highlight, null when the channel has no value
+interface MetricRow {
+  label: string;
+  value: (c: ChannelComparisonData) => number | null;
+  render: (c: ChannelComparisonData) => React.ReactNode;
+  highlightBest?: boolean;
+}
+
+const METRIC_ROWS: MetricRow[] = [
+  {
+    label: 'Uploads compared',
+    value: c => c.videoCount,
+    render: c => c.videoCount,
+  },
+  {
+    label: 'Median views',
+    value: c => c.medianViews,
+    render: c => compact.format(c.medianViews),
+    highlightBest: true,
+  },
+  {
+    label: 'Upload cadence',
+    value: c => c.uploadsPerWeek,
+    render: c => formatCadence(c.uploadsPerWeek),
+    highlightBest: true,
+  },
+  {
+    label: 'Average duration',
+    value: c => c.averageDurationSeconds,
+    render: c => formatDuration(c.averageDurationSeconds),
+  },
+  {
+    label: 'Shorts / long form',
+    value: c => c.shortsShare,
+    render: c => (
+      <div className="space-y-1">
+        <div className="h-1.5 w-full rounded-full bg-indigo-500/40 overflow-hidden">
+          <div className="h-full bg-rose-500" style={{ width: `${c.shortsShare}%` }}></div>
+        </div>
+        <div className="text-xs text-slate-400">
+          <span className="text-rose-400">{Math.round(c.shortsShare)}% Shorts</span> · <span className="text-indigo-300">{Math.round(100 - c.shortsShare)}% long</span>
+        </div>
+      </div>
+    ),
+  },
+  {
+    label: 'Engagement rate',
+    value: c => c.engagementRate,
+    render: c => c.engagementRate === null ? '—' : `${c.engagementRate.toFixed(2)}%`,
+    highlightBest: true,
+  },
+];
+
+// Side-by-side summary of the compared channels, one column per channel
+export const ChannelComparison: React.FC<ChannelComparisonProps> = ({ comparisons, onExport }) => {
+  const best = (row: MetricRow): number | null => {
+    const values = comparisons.map(row.value).filter((v): v is number => v !== null);
+    return row.highlightBest && comparisons.length > 1 && values.length > 0 ? Math.max(...values) : null;
+  };
+
+  return (
+    <div className="mb-6 rounded-2xl border border-slate-700/60 shadow-2xl bg-slate-900/60 backdrop-blur-md overflow-hidden">
+      <div className="px-4 py-3 border-b border-slate-800 flex items-center justify-between gap-4">
+        <h3 className="text-sm font-bold text-slate-300 uppercase tracking-widest flex items-center gap-2">
+          <GitCompare size={16} className="text-indigo-400" /> Channel Comparison
+        </h3>
+        <button
+          onClick={onExport}
+          className="flex items-center gap-1.5 text-xs font-semibold px-3 py-1.5 rounded-lg bg-emerald-600/10 border border-emerald-500/20 text-emerald-400 hover:bg-emerald-600/20 transition-colors cursor-pointer"
+          title="Download the comparison as CSV, one row per channel"
+        >
+          <Download size={14} /> Export Comparison
+        </button>
+      </div>
+      <div className="overflow-x-auto custom-scrollbar">
+        <table className="w-full text-left border-collapse text-sm">
+          <thead>
+            <tr className="bg-slate-950/60">
+              <th className="p-4 w-44 text-xs text-slate-500 uppercase tracking-wider font-semibold"></th>
+              {comparisons.map(c => (
+                <th key={c.channelId} className="p-4 min-w-[200px] align-top">
+                  <div className="flex items-center gap-3">
+                    {c.profile?.thumbnail
+                      ? <img src={c.profile.thumbnail} alt={c.title} className="w-10 h-10 rounded-full border border-slate-700/50 object-cover shrink-0" />
+                      : <div className="w-10 h-10 rounded-full bg-slate-800 flex items-center justify-center text-slate-500 shrink-0"><Users size={16} /></div>}
+                    <div className="min-w-0">
+                      <a
+                        href={`https://www.youtube.com/channel/${c.channelId}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="font-bold text-slate-100 hover:text-indigo-400 transition-colors truncate block"
+                        title={c.title}
+                      >
+                        {c.title}
+                      </a>
+                      <div className="text-[10px] text-slate-500 font-normal">
+                        {c.profile?.subscriberCount ? `${compact.format(parseInt(c.profile.subscriberCount))} subscribers` : 'Subscribers hidden'}
+                      </div>
+                    </div>
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800/60 text-slate-200">
+            {METRIC_ROWS.map(row => {
+              const bestValue = best(row);
+              return (
+                <tr key={row.label}>
+                  <td className="p-4 text-xs text-slate-500 uppercase tracking-wider font-semibold">{row.label}</td>
+                  {comparisons.map(c => (
+                    <td key={c.channelId} className={`p-4 font-medium ${bestValue !== null && row.value(c) === bestValue ? 'text-emerald-400' : ''}`}>
+                      {row.render(c)}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+            <tr>
+              <td className="p-4 text-xs text-slate-500 uppercase tracking-wider font-semibold align-top">Top videos</td>
+              {comparisons.map(c => (
+                <td key={c.channelId} className="p-4 align-top">
+                  <ol className="space-y-2">
+                    {c.topVideos.map((video, i) => (
+                      <li key={video.id} className="flex items-start gap-2 text-xs">
+                        <span className="font-mono text-slate-600 w-4 shrink-0">{i + 1}</span>
+                        <div className="min-w-0">
+                          <a
+                            href={video.url}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="text-slate-300 hover:text-indigo-400 transition-colors line-clamp-2 leading-snug"
+                            title={video.title}
+                          >
+                            {video.title}
+                          </a>
+                          <span className="text-slate-500">{compact.format(parseInt(video.viewCount) || 0)} views</span>
+                        </div>
+                      </li>
+                    ))}
+                  </ol>
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
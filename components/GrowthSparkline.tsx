@@ -0,0 +1,50 @@
+import React from 'react';
+import { StatsSnapshot } from '../types';
+import { ViewGrowth, coversWindow } from '../services/snapshotService';
+
+interface GrowthSparklineProps {
+  snapshots: StatsSnapshot[]; // Oldest first
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+const compact = new Intl.NumberFormat('en-US', { notation: 'compact', compactDisplay: 'short' });
+
+// "+12K", or "+3.1K in 6h" / "+40K in 7d" when the snapshots cover a different span than the window
+export const formatViewGrowth = (growth: ViewGrowth | null, windowHours: number): string => {
+  if (!growth) return '—';
+  const sign = growth.gained >= 0 ? '+' : '';
+  const partial = !coversWindow(growth, windowHours);
+  const span = growth.hours < 48 ? `${Math.max(1, Math.round(growth.hours))}h` : `${Math.round(growth.hours / 24)}d`;
+  return `${sign}${compact.format(growth.gained)}${partial ? ` in ${span}` : ''}`;
+};
+
+// Views over time as a line, x by snapshot time
+export const GrowthSparkline: React.FC<GrowthSparklineProps> = ({ snapshots, width = 120, height = 32, className }) => {
+  if (snapshots.length < 2) {
+    return <span className="text-[10px] text-slate-600 italic">{snapshots.length === 1 ? '1 snapshot' : 'No snapshots'}</span>;
+  }
+
+  const first = snapshots[0].takenAt;
+  const spanX = Math.max(1, snapshots[snapshots.length - 1].takenAt - first);
+  const views = snapshots.map(s => s.viewCount);
+  const min = Math.min(...views);
+  const spanY = Math.max(1, Math.max(...views) - min);
+  const pad = 2;
+
+  const points = snapshots.map(s => {
+    const x = pad + ((s.takenAt - first) / spanX) * (width - pad * 2);
+    const y = height - pad - ((s.viewCount - min) / spanY) * (height - pad * 2);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+  const last = points[points.length - 1].split(',');
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className={className}>
+      <title>{`${snapshots.length} snapshots since ${new Date(first).toLocaleString()}`}</title>
+      <polyline points={points.join(' ')} fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinejoin="round" strokeLinecap="round" />
+      <circle cx={last[0]} cy={last[1]} r="2" fill="currentColor" />
+    </svg>
+  );
+};
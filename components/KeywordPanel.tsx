@@ -0,0 +1,94 @@
+import React, { useMemo, useState } from 'react';
+import { Hash, Type, X } from 'lucide-react';
+import { VideoData } from '../types';
+import { KeywordSource, KeywordSort, aggregateKeywords, rankKeywords } from '../services/keywordService';
+
+export interface KeywordSelection {
+  source: KeywordSource;
+  term: string;
+}
+
+interface KeywordPanelProps {
+  videos: VideoData[];
+  selected: KeywordSelection | null;
+  onSelect: (selection: KeywordSelection | null) => void;
+}
+
+const VISIBLE_TERMS = 24;
+
+const compact = new Intl.NumberFormat('en-US', { notation: 'compact', compactDisplay: 'short' });
+
+// Tags and title words ranked across the results; clicking one filters the table to its videos
+export const KeywordPanel: React.FC<KeywordPanelProps> = ({ videos, selected, onSelect }) => {
+  const [source, setSource] = useState<KeywordSource>('tag');
+  const [sort, setSort] = useState<KeywordSort>('frequency');
+
+  const stats = useMemo(() => aggregateKeywords(videos, source), [videos, source]);
+  const ranked = rankKeywords(stats, sort).slice(0, VISIBLE_TERMS);
+  const maxCount = Math.max(1, ...ranked.map(stat => stat.count));
+
+  const toggleClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors cursor-pointer ${active ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`;
+
+  return (
+    <div className="mb-4 p-4 rounded-2xl border border-slate-700/60 bg-slate-900/60">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <div className="flex items-center gap-2">
+          <div className="flex bg-slate-950 p-1 rounded-xl border border-slate-800">
+            <button onClick={() => setSource('tag')} className={toggleClass(source === 'tag')}>
+              <span className="flex items-center gap-1"><Hash size={12} /> Tags</span>
+            </button>
+            <button onClick={() => setSource('title')} className={toggleClass(source === 'title')}>
+              <span className="flex items-center gap-1"><Type size={12} /> Title Keywords</span>
+            </button>
+          </div>
+          <div className="flex bg-slate-950 p-1 rounded-xl border border-slate-800">
+            <button onClick={() => setSort('frequency')} className={toggleClass(sort === 'frequency')}>Most Used</button>
+            <button onClick={() => setSort('virality')} className={toggleClass(sort === 'virality')} title="Average Virality score of the videos using it (used by 2+ videos)">
+              Best Performing
+            </button>
+          </div>
+        </div>
+        {selected && (
+          <button
+            onClick={() => onSelect(null)}
+            className="flex items-center gap-1.5 text-xs font-semibold px-3 py-1.5 rounded-lg bg-indigo-500/10 border border-indigo-500/30 text-indigo-300 hover:bg-indigo-500/20 transition-colors cursor-pointer"
+            title="Show all videos again"
+          >
+            {selected.source === 'tag' ? <Hash size={12} /> : <Type size={12} />} {selected.term} <X size={12} />
+          </button>
+        )}
+      </div>
+
+      {ranked.length === 0 ? (
+        <p className="text-xs text-slate-500 p-2">
+          {source === 'tag' ? 'None of these videos have tags.' : 'No title keywords.'}
+          {sort === 'virality' && stats.length > 0 && ' Nothing is used by more than one video.'}
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-x-6 gap-y-1">
+          {ranked.map(stat => {
+            const isSelected = selected?.source === stat.source && selected.term === stat.term;
+            return (
+              <button
+                key={stat.term}
+                onClick={() => onSelect(isSelected ? null : { source: stat.source, term: stat.term })}
+                className={`flex items-center gap-3 px-2 py-1.5 rounded-lg text-left transition-colors cursor-pointer ${isSelected ? 'bg-indigo-500/15 ring-1 ring-indigo-500/40' : 'hover:bg-slate-800/60'}`}
+                title={`${stat.count} video${stat.count === 1 ? '' : 's'} · avg. Virality ${stat.averageVirality === null ? '—' : stat.averageVirality.toFixed(0)}`}
+              >
+                <span className="text-sm text-slate-200 truncate flex-1">{stat.term}</span>
+                <span className="w-16 h-1.5 rounded-full bg-slate-800 overflow-hidden shrink-0">
+                  <span className="block h-full bg-indigo-500" style={{ width: `${(stat.count / maxCount) * 100}%` }}></span>
+                </span>
+                <span className="text-xs font-mono text-slate-400 w-6 text-right shrink-0">{stat.count}</span>
+                <span className="text-xs font-mono text-amber-400 w-12 text-right shrink-0">
+                  {stat.averageVirality === null ? '—' : compact.format(stat.averageVirality)}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import React from 'react';
+import { Scale } from 'lucide-react';
+
+interface OutlierFilterProps {
+  enabled: boolean;
+  threshold: number; // Minimum multiple of the channel median
+  shown: number;
+  total: number;
+  onChange: (enabled: boolean, threshold: number) => void;
+}
+
+// "Outliers only" toggle with its multiplier threshold
+export const OutlierFilter: React.FC<OutlierFilterProps> = ({ enabled, threshold, shown, total, onChange }) => (
+  <div className="mb-4 px-4 py-3 rounded-2xl border border-slate-700/60 bg-slate-900/60 flex flex-wrap items-center gap-3">
+    <button
+      onClick={() => onChange(!enabled, threshold)}
+      className="flex items-center gap-3 text-sm text-slate-400 hover:text-slate-200 transition-colors cursor-pointer"
+      title="Show only videos that beat their channel's recent median by the chosen multiple"
+    >
+      <span className={`w-8 h-4 rounded-full relative transition-colors ${enabled ? 'bg-amber-600' : 'bg-slate-700'}`}>
+        <span className={`absolute top-0.5 w-3 h-3 rounded-full bg-white transition-all ${enabled ? 'left-4' : 'left-0.5'}`}></span>
+      </span>
+      <Scale size={14} /> Outliers only
+    </button>
+    <label className="flex items-center gap-2 text-xs text-slate-500">
+      at least
+      <input
+        type="number"
+        min={1}
+        max={100}
+        step={0.5}
+        value={threshold}
+        onChange={(e) => {
+          const value = parseFloat(e.target.value);
+          if (!isNaN(value) && value > 0) onChange(enabled, value);
+        }}
+        className="w-20 bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 font-mono outline-none focus:ring-2 focus:ring-amber-500"
+      />
+      x channel median
+    </label>
+    {enabled && <span className="text-xs text-slate-500 ml-auto">{shown} of {total} videos</span>}
+  </div>
+);
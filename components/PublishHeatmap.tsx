@@ -0,0 +1,91 @@
+import React, { useMemo, useState } from 'react';
+import { CalendarClock, Globe } from 'lucide-react';
+import { VideoData } from '../types';
+import { WEEKDAYS, buildPublishHeatmap, getStoredTimezone, setStoredTimezone, getTimezoneOptions } from '../services/scheduleService';
+
+interface PublishHeatmapProps {
+  videos: VideoData[];
+  performance: (video: VideoData) => number | undefined;
+  metricName: string;
+  formatValue: (value: number | null) => string;
+}
+
+type HeatmapView = 'uploads' | 'performance';
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+// Weekday by hour-of-day grid of when the results were published, in a chosen timezone
+export const PublishHeatmap: React.FC<PublishHeatmapProps> = ({ videos, performance, metricName, formatValue }) => {
+  const [view, setView] = useState<HeatmapView>('uploads');
+  const [timeZone, setTimeZone] = useState<string>(getStoredTimezone);
+  const timezoneOptions = useMemo(getTimezoneOptions, []);
+
+  const grid = useMemo(() => buildPublishHeatmap(videos, timeZone, performance), [videos, timeZone, performance]);
+  const cellValue = (cell: { count: number; medianPerformance: number | null }) => view === 'uploads' ? cell.count : cell.medianPerformance;
+  const values = grid.flat().map(cellValue).filter((v): v is number => v !== null && v > 0);
+  const max = Math.max(1, ...values);
+
+  const handleTimezoneChange = (value: string) => {
+    setTimeZone(value);
+    setStoredTimezone(value);
+  };
+
+  const toggleClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors cursor-pointer ${active ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`;
+
+  return (
+    <div className="mb-4 p-4 rounded-2xl border border-slate-700/60 bg-slate-900/60">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-sm font-bold text-slate-300 uppercase tracking-widest flex items-center gap-2">
+          <CalendarClock size={16} className="text-indigo-400" /> Publish Times
+        </h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex bg-slate-950 p-1 rounded-xl border border-slate-800">
+            <button onClick={() => setView('uploads')} className={toggleClass(view === 'uploads')}>Uploads</button>
+            <button onClick={() => setView('performance')} className={toggleClass(view === 'performance')}>Median {metricName}</button>
+          </div>
+          <label className="flex items-center gap-1.5 text-xs text-slate-400">
+            <Globe size={14} />
+            <select
+              value={timeZone}
+              onChange={(e) => handleTimezoneChange(e.target.value)}
+              className="bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 outline-none cursor-pointer max-w-[180px]"
+            >
+              {timezoneOptions.map(zone => <option key={zone} value={zone}>{zone}</option>)}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto custom-scrollbar">
+        <div className="min-w-[640px]">
+          <div className="flex pl-10 mb-1">
+            {HOURS.map(hour => (
+              <div key={hour} className="flex-1 text-[9px] text-slate-600 text-center font-mono">{hour % 3 === 0 ? hour : ''}</div>
+            ))}
+          </div>
+          {grid.map((row, day) => (
+            <div key={WEEKDAYS[day]} className="flex items-center mb-0.5">
+              <div className="w-10 text-[10px] text-slate-500 font-semibold uppercase">{WEEKDAYS[day]}</div>
+              {row.map((cell, hour) => {
+                const value = cellValue(cell);
+                const intensity = value !== null && value > 0 ? 0.15 + (value / max) * 0.85 : 0;
+                return (
+                  <div
+                    key={hour}
+                    className="flex-1 h-6 mx-px rounded-sm bg-slate-800/40"
+                    style={intensity > 0 ? { backgroundColor: `rgba(99, 102, 241, ${intensity.toFixed(2)})` } : undefined}
+                    title={`${WEEKDAYS[day]} ${hour.toString().padStart(2, '0')}:00 · ${cell.count} upload${cell.count === 1 ? '' : 's'} · median ${metricName} ${formatValue(cell.medianPerformance)}`}
+                  ></div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+      <p className="text-[10px] text-slate-600 mt-2">
+        {view === 'uploads' ? 'Darker = more uploads in that hour.' : `Darker = higher median ${metricName} for videos published in that hour.`} Times in {timeZone}.
+      </p>
+    </div>
+  );
+};
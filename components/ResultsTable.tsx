@@ -1,7 +1,29 @@
 import React, { useState } from 'react';
-import { VideoData, ScrapeMode, VideoType } from '../types';
-import { ExternalLink, Clock, Eye, FileText, Download, CheckCircle, XCircle, Loader2, FileWarning, ThumbsUp, MessageSquare, Tag, Hash, TrendingUp, Trophy, Calendar, Copy, Check, BarChart, Save, Ban, RefreshCw } from 'lucide-react';
-import { parseDurationToSeconds } from '../services/youtubeService';
+import { VideoData, ScrapeMode, VideoType, StatsSnapshot, ChannelProfile } from '../types';
+import { ExternalLink, Clock, Eye, FileText, Download, CheckCircle, XCircle, Loader2, FileWarning, ThumbsUp, MessageSquare, Tag, Hash, TrendingUp, Trophy, Calendar, Copy, Check, BarChart, Save, Ban, RefreshCw, ListOrdered, Radar } from 'lucide-react';
+import { parseDurationToSeconds, getTranscriptFailureMessage } from '../services/youtubeService';
+import { buildSubtitles, SubtitleFormat } from '../services/subtitleService';
+import { createZip } from '../services/zipService';
+import { triggerDownload } from '../services/downloadService';
+import { getTranscriptProvider } from '../services/transcriptProviders';
+import { getViewGrowth, coversWindow } from '../services/snapshotService';
+import { ScoringModelId, ScoringWeights, DEFAULT_SCORING_MODEL, getScoringModel, resolveWeights, describeWeights, formatScore } from '../services/scoringService';
+import { TranscriptViewer } from './TranscriptViewer';
+import { GrowthSparkline, formatViewGrowth } from './GrowthSparkline';
+import { ScoringControls } from './ScoringControls';
+import { OutlierFilter } from './OutlierFilter';
+import { ChannelCard } from './ChannelCard';
+import { ChannelComparison } from './ChannelComparison';
+import { KeywordPanel, KeywordSelection } from './KeywordPanel';
+import { TitlePatternReport } from './TitlePatternReport';
+import { PublishHeatmap } from './PublishHeatmap';
+import { UploadCadenceChart } from './UploadCadenceChart';
+import { AnalysisCharts } from './AnalysisCharts';
+import { summarizeResultChannels } from '../services/channelProfileService';
+import { compareChannels, buildComparisonCsv } from '../services/channelComparisonService';
+import { getVideoKeywords } from '../services/keywordService';
+import { analyzeTitlePatterns, buildTitlePatternCsv, describeTitlePatterns } from '../services/titlePatternService';
+import { getUploadGaps } from '../services/scheduleService';
 
 interface ResultsTableProps {
   data: VideoData[];
@@ -10,6 +32,16 @@ interface ResultsTableProps {
   onCancelVideo?: (id: string) => void;
   onRetryVideo?: (id: string) => void;
   isLoading?: boolean;
+  // Analysis: stored stats snapshots per video ID, and the watchlist toggle
+  snapshots?: Record<string, StatsSnapshot[]>;
+  watchedIds?: string[];
+  onToggleWatch?: (video: VideoData) => void;
+  // Analysis: model the rows are ranked by, and a handler to switch model or weights
+  scoringModel?: ScoringModelId;
+  scoringWeights?: ScoringWeights;
+  onScoringChange?: (modelId: ScoringModelId, weights: ScoringWeights) => void;
+  // Analysis: profiles of the channels in the results, keyed by channel ID
+  channelProfiles?: Record<string, ChannelProfile>;
 }
 
 // Helper: Copy Button Component
@@ -54,25 +86,86 @@ const formatNumber = (numStr?: string) => {
   return new Intl.NumberFormat('en-US', { notation: "compact", compactDisplay: "short" }).format(num);
 };
 
+// Strip characters that are unsafe in filenames (reserved on Windows, control characters, trailing dots).
+// Letters in any script are kept.
+const sanitizeFilename = (str: string) => str.replace(/[\\/:*?"<>|\u0000-\u001f\u007f]/g, '').replace(/[.\s]+$/, '').trim().replace(/\s+/g, '_');
+
+type ExportFormat = 'csv' | SubtitleFormat;
+
+// Channel header cards above an analysis; channels beyond these are summarized
+const MAX_CHANNEL_CARDS = 3;
+
+// Below this, "videos with vs. without" a title pattern compares one or two videos
+const MIN_TITLE_PATTERN_VIDEOS = 5;
+
+// Helper: Views gained for a CSV column, left blank when the snapshots do not cover the window
+const exportViewGrowth = (videoSnapshots: StatsSnapshot[], windowHours: number): number | string => {
+  const growth = getViewGrowth(videoSnapshots, windowHours);
+  return growth && coversWindow(growth, windowHours) ? growth.gained : '';
+};
+
+// Helper: Watchlist toggle for a video row or report
+const WatchButton: React.FC<{ watched: boolean; onClick: () => void }> = ({ watched, onClick }) => (
+  <button
+    onClick={onClick}
+    className={`flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-bold border transition-colors cursor-pointer ${
+      watched
+        ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30 hover:bg-red-500/10 hover:text-red-400 hover:border-red-500/30'
+        : 'bg-slate-800/50 text-slate-400 border-slate-700 hover:text-emerald-400 hover:border-emerald-500/30'
+    }`}
+    title={watched ? 'Stop tracking this video' : 'Add to the watchlist and start tracking views over time'}
+  >
+    <Radar size={12} /> {watched ? 'Watching' : 'Watch'}
+  </button>
+);
+
 // Format standard numbers with commas
 const formatStandard = (numStr?: string) => {
     if(!numStr) return '0';
     return parseInt(numStr).toLocaleString();
 }
 
-export const ResultsTable: React.FC<ResultsTableProps> = ({ data, mode, videoType, onCancelVideo, onRetryVideo, isLoading }) => {
+export const ResultsTable: React.FC<ResultsTableProps> = ({ data, mode, videoType, onCancelVideo, onRetryVideo, isLoading, snapshots = {}, watchedIds = [], onToggleWatch, scoringModel = DEFAULT_SCORING_MODEL, scoringWeights, onScoringChange, channelProfiles = {} }) => {
+  const model = getScoringModel(scoringModel);
+  // Runs saved before scoring models existed only carry viralityScore
+  const getScore = (video: VideoData) => video.score ?? (model.id === 'virality' ? video.viralityScore : undefined);
+
   // Modal State
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [filename, setFilename] = useState('');
+  const [viewingTranscriptId, setViewingTranscriptId] = useState<string | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [bundleAsZip, setBundleAsZip] = useState(true);
+  const [outliersOnly, setOutliersOnly] = useState(false);
+  const [outlierThreshold, setOutlierThreshold] = useState(3);
+  const [keywordFilter, setKeywordFilter] = useState<KeywordSelection | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null); // Row of the chart point under the pointer
+  const viewingVideo = viewingTranscriptId ? data.find(v => v.id === viewingTranscriptId) : undefined;
+
+  // Channel outlier filter: only offered once channel baselines are in the results
+  const hasChannelBaselines = mode.startsWith('analyze') && data.some(v => v.channelOutlierRatio !== undefined);
+  const outlierVideos = hasChannelBaselines && outliersOnly
+    ? data.filter(v => v.channelOutlierRatio !== undefined && v.channelOutlierRatio >= outlierThreshold)
+    : data;
+  // Tag / title keyword picked in the keyword panel
+  const visibleVideos = keywordFilter && mode.startsWith('analyze')
+    ? outlierVideos.filter(v => getVideoKeywords(v, keywordFilter.source).includes(keywordFilter.term))
+    : outlierVideos;
 
   const generateDefaultFilename = () => {
-    const sanitize = (str: string) => str.replace(/[^a-z0-9\s-_]/gi, '').trim().replace(/\s+/g, '_');
     const dateStr = new Date().toISOString().slice(0, 10);
     let name = `export_${dateStr}.csv`;
 
     if (mode === 'single-channel' && data.length > 0) {
-      const channelName = sanitize(data[0].channelTitle || 'Channel');
+      const channelName = sanitizeFilename(data[0].channelTitle || 'Channel');
       name = `${channelName}_scraped_${dateStr}.csv`;
+    } else if ((mode === 'playlist' || mode === 'analyze-playlist') && data.length > 0) {
+      const playlistName = sanitizeFilename(data[0].playlistTitle || 'Playlist');
+      name = `${playlistName}_playlist_${mode === 'analyze-playlist' ? 'analysis' : 'scraped'}_${dateStr}.csv`;
+    } else if (mode === 'keyword-search' || mode === 'analyze-search') {
+        name = `keyword_search_${mode === 'analyze-search' ? 'analysis' : 'scraped'}_${dateStr}.csv`;
+    } else if (mode === 'analyze-channels') {
+        name = `channel_comparison_videos_${dateStr}.csv`;
     } else if (mode.includes('analyze')) {
         name = `analysis_report_${dateStr}.csv`;
     }
@@ -82,10 +175,50 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({ data, mode, videoTyp
   const handleExportClick = () => {
       if (data.length === 0) return;
       setFilename(generateDefaultFilename());
+      setExportFormat('csv');
       setIsModalOpen(true);
   };
 
+  const subtitleVideos = data.filter(v => v.transcriptSegments && v.transcriptSegments.length > 0);
+
+  // One subtitle file per video (and per language when several were fetched),
+  // named after the sanitized title. IDs break ties between identical titles.
+  const executeSubtitleDownload = (format: SubtitleFormat) => {
+    const usedNames = new Set<string>();
+    const files = subtitleVideos.flatMap(video => {
+      let base = sanitizeFilename(video.title) || video.id;
+      if (usedNames.has(base)) base = `${base}_${video.id}`;
+      usedNames.add(base);
+
+      if (video.transcriptTracks && video.transcriptTracks.length > 1) {
+        return video.transcriptTracks
+          .filter(track => track.segments.length > 0)
+          .map(track => ({ name: `${base}.${track.language}.${format}`, content: buildSubtitles(track.segments, format) }));
+      }
+      return [{ name: `${base}.${format}`, content: buildSubtitles(video.transcriptSegments || [], format) }];
+    });
+
+    if (bundleAsZip) {
+      const zipName = filename.replace(/\.(csv|zip)$/i, '') + '.zip';
+      triggerDownload(createZip(files), zipName);
+    } else {
+      // Stagger the downloads so the browser does not drop them
+      files.forEach((file, i) => {
+        setTimeout(() => {
+          triggerDownload(new Blob([file.content], { type: format === 'srt' ? 'application/x-subrip' : 'text/vtt' }), file.name);
+        }, i * 250);
+      });
+    }
+
+    setIsModalOpen(false);
+  };
+
   const executeDownload = () => {
+    if (exportFormat !== 'csv') {
+      executeSubtitleDownload(exportFormat);
+      return;
+    }
+
     // Define Headers based on mode
     let headers = [
       "Serial Number",
@@ -96,22 +229,38 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({ data, mode, videoTyp
       "Comment Count",
       "Age (Days)",
       "Duration (Seconds)",
+      "Rank",
+      `Score (${model.name})`,
       "Virality Score",
+      "Engagement Rate (%)",
+      "Channel",
+      "Channel Subscribers",
+      "Views per Subscriber",
+      "Channel View Share (%)",
+      "Channel Median Views",
+      "Channel Multiplier",
+      "Views Gained 24h",
+      "Views Gained 7d",
+      "Title Length",
+      "Title Patterns",
       "Tags",
-      "Description"
+      "Description",
+      "Scoring Model",
+      "Scoring Weights"
     ];
+    const weightsLabel = describeWeights(model, resolveWeights(model, scoringWeights));
 
-    if (mode === 'single-video' || mode === 'multi-channel' || mode === 'single-channel') {
+    if (!mode.startsWith('analyze')) {
         // Simplify for transcript modes
-        headers = ["Serial Number", "Title", "Link", "Views", "Age (Days)", "Duration (Sec)", "Transcript"];
+        headers = ["Serial Number", "Title", "Link", "Views", "Age (Days)", "Duration (Sec)", "Language", "Provider", "Status", "Transcript"];
     }
 
-    // Map data to rows
-    const rows = data.map((video, index) => {
+    // Map the displayed videos to rows (the outlier filter applies to exports too)
+    const rows = visibleVideos.map((video, index) => {
       const daysAge = getDaysDiff(video.publishedAt);
       const durationSeconds = parseDurationToSeconds(video.duration);
       
-      if (mode === 'analyze-single' || mode === 'analyze-multi') {
+      if (mode.startsWith('analyze')) {
         return [
             index + 1,
             `"${video.title.replace(/"/g, '""')}"`,
@@ -121,9 +270,24 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({ data, mode, videoTyp
             video.commentCount || '0',
             daysAge,
             durationSeconds,
+            video.rank ?? '',
+            getScore(video)?.toFixed(model.decimals + 2) ?? '',
             video.viralityScore?.toFixed(2) || '0',
+            video.engagementRate?.toFixed(2) ?? '',
+            `"${(video.channelTitle || '').replace(/"/g, '""')}"`,
+            video.channelSubscriberCount || '',
+            video.viewsPerSubscriber?.toFixed(4) ?? '',
+            video.channelViewShare?.toFixed(4) ?? '',
+            video.channelMedianViews !== undefined ? Math.round(video.channelMedianViews) : '',
+            video.channelOutlierRatio?.toFixed(2) ?? '',
+            exportViewGrowth(snapshots[video.id] || [], 24),
+            exportViewGrowth(snapshots[video.id] || [], 24 * 7),
+            video.title.length,
+            `"${describeTitlePatterns(video.title).join('; ').replace(/"/g, '""')}"`,
             `"${(video.tags || []).join(', ')}"`,
-            `"${(video.description || '').replace(/"/g, '""').replace(/\n/g, ' ')}"`
+            `"${(video.description || '').replace(/"/g, '""').replace(/\n/g, ' ')}"`,
+            model.name,
+            `"${weightsLabel}"`
         ];
       }
 
@@ -134,7 +298,10 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({ data, mode, videoTyp
         video.viewCount,
         daysAge,
         durationSeconds,
-        `"${video.transcript || ''}"`
+        video.transcriptLanguage || '',
+        video.transcriptProvider ? getTranscriptProvider(video.transcriptProvider)?.shortName || video.transcriptProvider : '',
+        video.transcriptStatus?.state || '',
+        `"${video.transcriptStatus?.state === 'success' ? video.transcript || '' : ''}"`
       ];
     });
 
@@ -149,14 +316,7 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({ data, mode, videoTyp
 
     // Create a Blob and download with BOM for UTF-8 support
     const blob = new Blob(['\uFEFF' + csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.setAttribute("href", url);
-    link.setAttribute("download", finalFilename);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    triggerDownload(blob, finalFilename);
 
     setIsModalOpen(false);
   };
@@ -216,6 +376,14 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({ data, mode, videoTyp
                         <Eye size={24} className="text-blue-400 mb-2" />
                         <div className="text-2xl font-black text-white">{formatNumber(video.viewCount)}</div>
                         <div className="text-xs text-slate-500 uppercase font-bold tracking-wider">Total Views</div>
+                        {video.channelOutlierRatio !== undefined && (
+                            <div className="text-[10px] font-semibold text-amber-400 mt-1" title={`Channel median: ${formatStandard(String(Math.round(video.channelMedianViews || 0)))} views`}>
+                                {video.channelOutlierRatio.toFixed(1)}x channel median
+                            </div>
+                        )}
+                        {video.viewsPerSubscriber !== undefined && (
+                            <div className="text-[10px] text-slate-500 mt-0.5">{video.viewsPerSubscriber.toFixed(2)} per subscriber</div>
+                        )}
                     </div>
                     <div className="bg-slate-900/60 border border-slate-700/50 rounded-2xl p-4 flex flex-col justify-center items-center text-center shadow-lg">
                         <ThumbsUp size={24} className="text-emerald-400 mb-2" />
@@ -236,6 +404,31 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({ data, mode, videoTyp
                 </div>
             </div>
 
+            {video.channelId && channelProfiles[video.channelId] && <ChannelCard channel={channelProfiles[video.channelId]} />}
+
+            {/* Growth Over Time (from watchlist snapshots) */}
+            <div className="bg-slate-900/60 border border-slate-700/50 rounded-2xl p-6 shadow-lg flex flex-col sm:flex-row sm:items-center gap-6">
+                <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between mb-3">
+                        <h4 className="text-sm font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2">
+                            <TrendingUp size={16} /> Views Over Time
+                        </h4>
+                        {onToggleWatch && <WatchButton watched={watchedIds.includes(video.id)} onClick={() => onToggleWatch(video)} />}
+                    </div>
+                    <GrowthSparkline snapshots={snapshots[video.id] || []} width={480} height={80} className="w-full text-emerald-400" />
+                </div>
+                <div className="flex sm:flex-col gap-6 sm:gap-3 shrink-0">
+                    <div>
+                        <div className="text-xl font-black text-white">{formatViewGrowth(getViewGrowth(snapshots[video.id] || [], 24), 24)}</div>
+                        <div className="text-xs text-slate-500 uppercase font-bold tracking-wider">Views, last 24h</div>
+                    </div>
+                    <div>
+                        <div className="text-xl font-black text-white">{formatViewGrowth(getViewGrowth(snapshots[video.id] || [], 24 * 7), 24 * 7)}</div>
+                        <div className="text-xs text-slate-500 uppercase font-bold tracking-wider">Views, last 7d</div>
+                    </div>
+                </div>
+            </div>
+
             {/* Description and Tags */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div className="bg-slate-900/60 border border-slate-700/50 rounded-2xl p-6 shadow-lg h-96 flex flex-col relative">
@@ -304,7 +497,23 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({ data, mode, videoTyp
   }
 
   // --- MULTI VIDEO RANKING VIEW ---
-  const isAnalysisMode = mode === 'analyze-multi';
+  const isAnalysisMode = mode.startsWith('analyze');
+  // Playlist analysis keeps playlist order, so there is no "winner" row
+  const isRanked = mode === 'analyze-multi' || mode === 'analyze-search' || mode === 'analyze-channels';
+  const isComparison = mode === 'analyze-channels';
+  const comparisons = isComparison ? compareChannels(data, channelProfiles) : [];
+  const exportComparison = () => {
+    const csv = buildComparisonCsv(comparisons);
+    triggerDownload(new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8;' }), `channel_comparison_${new Date().toISOString().slice(0, 10)}.csv`);
+  };
+  // Title patterns against the ranking score, over the whole result set
+  const titlePatterns = isAnalysisMode && data.length >= MIN_TITLE_PATTERN_VIDEOS ? analyzeTitlePatterns(data, getScore) : [];
+  const exportTitlePatterns = () => {
+    const csv = buildTitlePatternCsv(titlePatterns, model.name);
+    triggerDownload(new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8;' }), `title_patterns_${new Date().toISOString().slice(0, 10)}.csv`);
+  };
+  // Channel header: the channels with the most videos in the results (the comparison has its own)
+  const resultChannels = isAnalysisMode && !isComparison ? summarizeResultChannels(data).filter(c => channelProfiles[c.channelId]).sort((a, b) => b.videoCount - a.videoCount) : [];
 
   return (
     <>
@@ -314,7 +523,7 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({ data, mode, videoTyp
           <div className="bg-indigo-500/10 p-2 rounded-lg border border-indigo-500/20 shadow-[0_0_15px_rgba(99,102,241,0.15)]">
             {isAnalysisMode ? <Trophy className="text-amber-400 w-6 h-6" /> : <FileText className="text-indigo-400 w-6 h-6" />}
           </div>
-          {isAnalysisMode ? "Ranked Performance Analysis" : "MujahidRakib Data"} 
+          {isComparison ? "Channel Comparison" : isRanked ? "Ranked Performance Analysis" : isAnalysisMode ? (data[0].playlistTitle || "Playlist Analysis") : "MujahidRakib Data"} 
           <span className="text-base font-bold text-indigo-400 bg-indigo-500/10 px-3 py-1 rounded-full border border-indigo-500/30 shadow-[0_0_10px_rgba(99,102,241,0.2)]">
             {data.length} items
           </span>
@@ -325,39 +534,110 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({ data, mode, videoTyp
           className="group flex items-center gap-2 bg-emerald-600/10 hover:bg-emerald-600/20 text-emerald-400 hover:text-emerald-300 border border-emerald-500/20 hover:border-emerald-500/40 px-6 py-2.5 rounded-xl transition-all duration-300 cursor-pointer shadow-lg shadow-emerald-900/10 hover:shadow-emerald-900/30 hover:scale-105 active:scale-95"
         >
           <Download size={18} className="group-hover:-translate-y-0.5 transition-transform" />
-          <span className="font-semibold text-sm">Export CSV</span>
+          <span className="font-semibold text-sm">Export</span>
         </button>
       </div>
       
+      {isComparison && <ChannelComparison comparisons={comparisons} onExport={exportComparison} />}
+
+      {isComparison && (
+        <UploadCadenceChart
+          gapsByChannel={getUploadGaps(data)}
+          channelTitles={Object.fromEntries(comparisons.map(c => [c.channelId, c.title]))}
+        />
+      )}
+
+      {resultChannels.length > 0 && (
+        <div className="mb-4 space-y-2">
+          {resultChannels.slice(0, MAX_CHANNEL_CARDS).map(c => (
+            <ChannelCard key={c.channelId} channel={channelProfiles[c.channelId]} resultCount={resultChannels.length > 1 ? c.videoCount : undefined} />
+          ))}
+          {resultChannels.length > MAX_CHANNEL_CARDS && (
+            <p className="text-xs text-slate-500 pl-2">+{resultChannels.length - MAX_CHANNEL_CARDS} more channels (see CSV export)</p>
+          )}
+        </div>
+      )}
+
+      {isAnalysisMode && onScoringChange && (
+        <ScoringControls modelId={model.id} weights={scoringWeights} onChange={onScoringChange} />
+      )}
+
+      {hasChannelBaselines && (
+        <OutlierFilter
+          enabled={outliersOnly}
+          threshold={outlierThreshold}
+          shown={visibleVideos.length}
+          total={data.length}
+          onChange={(enabled, threshold) => { setOutliersOnly(enabled); setOutlierThreshold(threshold); }}
+        />
+      )}
+
+      {titlePatterns.length > 0 && (
+        <TitlePatternReport
+          stats={titlePatterns}
+          metricName={model.name}
+          formatValue={(value) => formatScore(model, value)}
+          onExport={exportTitlePatterns}
+        />
+      )}
+
+      {isAnalysisMode && data.length > 1 && (
+        <PublishHeatmap
+          videos={data}
+          performance={getScore}
+          metricName={model.name}
+          formatValue={(value) => formatScore(model, value)}
+        />
+      )}
+
+      {isAnalysisMode && data.length > 1 && (
+        <KeywordPanel videos={data} selected={keywordFilter} onSelect={setKeywordFilter} />
+      )}
+
+      {isAnalysisMode && visibleVideos.length > 1 && (
+        <AnalysisCharts videos={visibleVideos} highlightedId={highlightedId} onHighlight={setHighlightedId} />
+      )}
+
       <div className="overflow-hidden rounded-2xl border border-slate-700/60 shadow-2xl bg-slate-900/60 backdrop-blur-md">
         <div className="overflow-x-auto custom-scrollbar">
           <table className="w-full text-left border-collapse">
             <thead className="bg-slate-950/80 text-slate-400 text-xs uppercase tracking-wider font-semibold backdrop-blur-sm">
               <tr>
-                <th className="p-4 border-b border-slate-700 w-16 text-center">{isAnalysisMode ? "Rank" : "#"}</th>
+                <th className="p-4 border-b border-slate-700 w-16 text-center">{isRanked ? "Rank" : "#"}</th>
                 <th className="p-4 border-b border-slate-700 min-w-[300px]">Video Details</th>
                 <th className="p-4 border-b border-slate-700 w-32">Views</th>
                 
                 {isAnalysisMode && <th className="p-4 border-b border-slate-700 w-32">Views/Day</th>}
                 {isAnalysisMode && <th className="p-4 border-b border-slate-700 w-32">Likes</th>}
                 {isAnalysisMode && <th className="p-4 border-b border-slate-700 w-32">Comments</th>}
+                {isAnalysisMode && <th className="p-4 border-b border-slate-700 w-44">Growth</th>}
                 
                 <th className="p-4 border-b border-slate-700 w-32">Age</th>
                 
                 <th className="p-4 border-b border-slate-700 w-64 text-center">
-                    {isAnalysisMode ? "Virality Score" : "Transcript"}
+                    {isAnalysisMode ? model.name : "Transcript"}
                 </th>
               </tr>
             </thead>
             <tbody className="text-slate-300 text-sm divide-y divide-slate-800/60">
-              {data.map((video, index) => {
+              {visibleVideos.length === 0 && (
+                <tr>
+                  <td colSpan={9} className="p-8 text-center text-slate-500 text-sm">
+                    No videos match the {keywordFilter ? `"${keywordFilter.term}" filter` : `${outlierThreshold}x channel median filter`}.
+                  </td>
+                </tr>
+              )}
+              {visibleVideos.map((video, index) => {
                 const transcript = video.transcript || '';
-                const isCancelled = transcript === 'Cancelled';
-                const isPending = transcript === '' && !isCancelled;
-                
-                // Safe string conversion before checking startsWith to prevent TypeError
-                const transcriptStr = String(transcript || '');
-                const isError = transcriptStr.startsWith("Error") || transcriptStr.startsWith("API Error") || transcriptStr.startsWith("Request Failed");
+                const status = video.transcriptStatus;
+                const isCancelled = status?.state === 'cancelled';
+                // No status yet means the transcript phase has not reached this video
+                const isPending = !status || status.state === 'pending';
+                const isError = status?.state === 'failed' || status?.state === 'unavailable';
+                const errorMessage = getTranscriptFailureMessage(status);
+                const errorLabel = status?.state === 'failed'
+                    ? `${status.error.category || 'unknown'}${status.error.code ? ` · ${status.error.code}` : ''}`
+                    : 'No captions';
                 
                 const daysAge = getDaysDiff(video.publishedAt);
                 const viewsPerDay = (parseInt(video.viewCount) / Math.max(1, daysAge)).toFixed(0);
@@ -365,13 +645,15 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({ data, mode, videoTyp
                 // Content Logic for Last Column
                 let displayContent;
                 if (isAnalysisMode) {
-                    // Show Virality Score
+                    // Show the chosen model's score
                     displayContent = (
                         <div className="flex flex-col items-center">
                             <div className="text-lg font-black text-white bg-gradient-to-r from-amber-500 to-orange-500 bg-clip-text text-transparent">
-                                {video.viralityScore?.toFixed(0) || '0'}
+                                {formatScore(model, getScore(video))}
+                            </div>
+                            <div className="text-[10px] text-slate-500 uppercase tracking-wide">
+                                {video.engagementRate !== undefined ? `ER ${video.engagementRate.toFixed(1)}%` : 'Score'}
                             </div>
-                            <div className="text-[10px] text-slate-500 uppercase tracking-wide">Points</div>
                         </div>
                     )
                 } else {
@@ -405,10 +687,15 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({ data, mode, videoTyp
                                 <div className="relative group/cell w-full max-w-[150px]">
                                     <div className="flex items-start gap-2 text-red-400 text-xs bg-red-500/5 px-2 py-1 rounded-md border border-red-500/10 pr-6">
                                         <FileWarning size={14} className="shrink-0 mt-0.5" />
-                                        <span className="break-words line-clamp-2 text-left" title={transcript}>{transcript}</span>
+                                        <div className="flex flex-col items-start min-w-0">
+                                            <span className="text-[9px] font-bold uppercase tracking-wide text-red-300/80">
+                                                {errorLabel}
+                                            </span>
+                                            <span className="break-words line-clamp-2 text-left" title={errorMessage}>{errorMessage}</span>
+                                        </div>
                                     </div>
                                     <div className="absolute right-0 top-1/2 -translate-y-1/2 opacity-0 group-hover/cell:opacity-100 transition-opacity z-20">
-                                        <CopyButton text={transcript} className="bg-slate-900 shadow-md" />
+                                        <CopyButton text={errorMessage} className="bg-slate-900 shadow-md" />
                                     </div>
                                 </div>
                                 
@@ -434,8 +721,32 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({ data, mode, videoTyp
                                         <CopyButton text={transcript} className="bg-slate-900/90 shadow-md scale-90" />
                                     </div>
                                 </div>
-                                <div className="flex items-center gap-1 text-emerald-500 text-[10px] font-bold uppercase tracking-wide mx-auto">
-                                    <CheckCircle size={10} /> Transcribed
+                                <div className="flex items-center justify-center gap-3 mx-auto">
+                                    <div className="flex items-center gap-1 text-emerald-500 text-[10px] font-bold uppercase tracking-wide">
+                                        <CheckCircle size={10} /> Transcribed
+                                    </div>
+                                    {video.transcriptLanguage && (
+                                        <span
+                                            className="text-[10px] font-mono font-bold uppercase text-slate-400 bg-slate-800/60 px-1.5 py-0.5 rounded border border-slate-700/50"
+                                            title={video.transcriptTracks ? `Languages: ${video.transcriptTracks.map(t => t.language).join(', ')}` : 'Transcript language'}
+                                        >
+                                            {video.transcriptTracks && video.transcriptTracks.length > 1 ? video.transcriptTracks.map(t => t.language).join('/') : video.transcriptLanguage}
+                                        </span>
+                                    )}
+                                    {video.transcriptProvider && (
+                                        <span className="text-[10px] font-bold uppercase tracking-wide text-slate-500" title="Transcript served by">
+                                            {getTranscriptProvider(video.transcriptProvider)?.shortName || video.transcriptProvider}
+                                        </span>
+                                    )}
+                                    {video.transcriptSegments && video.transcriptSegments.length > 0 && (
+                                        <button
+                                            onClick={() => setViewingTranscriptId(video.id)}
+                                            className="flex items-center gap-1 text-indigo-400 hover:text-indigo-300 text-[10px] font-bold uppercase tracking-wide transition-colors cursor-pointer"
+                                            title="Show timestamps"
+                                        >
+                                            <ListOrdered size={10} /> Timestamps
+                                        </button>
+                                    )}
                                 </div>
                             </div>
                         );
@@ -443,9 +754,9 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({ data, mode, videoTyp
                 }
 
                 return (
-                  <tr key={video.id} className={`hover:bg-slate-800/40 transition-colors group duration-300 ${isAnalysisMode && index === 0 ? 'bg-amber-500/5 border-l-2 border-amber-500' : ''} ${isCancelled ? 'opacity-50 grayscale-[0.5]' : ''}`}>
+                  <tr key={video.id} className={`hover:bg-slate-800/40 transition-colors group duration-300 ${isRanked && index === 0 ? 'bg-amber-500/5 border-l-2 border-amber-500' : ''} ${isCancelled ? 'opacity-50 grayscale-[0.5]' : ''} ${highlightedId === video.id ? 'bg-amber-500/10 ring-1 ring-inset ring-amber-500/50' : ''}`}>
                     <td className="p-4 text-center font-mono text-slate-500 group-hover:text-slate-400">
-                      {isAnalysisMode && index === 0 ? <Trophy size={18} className="text-amber-500 mx-auto" /> : (index + 1).toString().padStart(2, '0')}
+                      {isRanked && index === 0 ? <Trophy size={18} className="text-amber-500 mx-auto" /> : (video.playlistPosition ?? index + 1).toString().padStart(2, '0')}
                     </td>
                     <td className="p-4">
                       <div className="flex items-start gap-4">
@@ -478,6 +789,14 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({ data, mode, videoTyp
                         <Eye size={14} className="text-emerald-500" />
                         {formatNumber(video.viewCount)}
                       </div>
+                      {isAnalysisMode && video.channelOutlierRatio !== undefined && (
+                        <div
+                          className={`text-[10px] font-semibold mt-1.5 ${video.channelOutlierRatio >= outlierThreshold ? 'text-amber-400' : 'text-slate-500'}`}
+                          title={`Channel median: ${formatStandard(String(Math.round(video.channelMedianViews || 0)))} views`}
+                        >
+                          {video.channelOutlierRatio.toFixed(1)}x channel median
+                        </div>
+                      )}
                     </td>
                     
                     {isAnalysisMode && (
@@ -486,6 +805,11 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({ data, mode, videoTyp
                              <div className="flex items-center gap-2">
                                 <TrendingUp size={14} className="text-amber-500" /> {formatStandard(viewsPerDay)}
                             </div>
+                            {video.viewsPerSubscriber !== undefined && (
+                                <div className="text-[10px] text-slate-500 mt-1" title="Views per channel subscriber">
+                                    {video.viewsPerSubscriber.toFixed(2)} / subscriber
+                                </div>
+                            )}
                         </td>
                         <td className="p-4 text-slate-300">
                             <div className="flex items-center gap-2">
@@ -497,6 +821,19 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({ data, mode, videoTyp
                                 <MessageSquare size={14} className="text-violet-500" /> {formatNumber(video.commentCount)}
                             </div>
                         </td>
+                        <td className="p-4 text-slate-300">
+                            <div className="flex flex-col gap-1.5">
+                                <GrowthSparkline snapshots={snapshots[video.id] || []} className="text-emerald-400" />
+                                {(snapshots[video.id] || []).length > 1 && (
+                                    <div className="text-[10px] text-slate-400 whitespace-nowrap">
+                                        <span className="text-emerald-400 font-semibold">{formatViewGrowth(getViewGrowth(snapshots[video.id], 24), 24)}</span> 24h
+                                        {' · '}
+                                        {formatViewGrowth(getViewGrowth(snapshots[video.id], 24 * 7), 24 * 7)} 7d
+                                    </div>
+                                )}
+                                {onToggleWatch && <div><WatchButton watched={watchedIds.includes(video.id)} onClick={() => onToggleWatch(video)} /></div>}
+                            </div>
+                        </td>
                         </>
                     )}
 
@@ -518,6 +855,10 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({ data, mode, videoTyp
       </div>
     </div>
 
+    {viewingVideo && (
+        <TranscriptViewer video={viewingVideo} onClose={() => setViewingTranscriptId(null)} />
+    )}
+
     {/* Save As Modal for Main Table */}
     {isModalOpen && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
@@ -527,8 +868,43 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({ data, mode, videoTyp
                     <Save size={18} className="text-emerald-500" /> Save Report As
                 </h3>
                 <div className="space-y-4">
+                    {!isAnalysisMode && (
+                        <div>
+                            <label className="text-xs text-slate-400 block mb-1.5">Format</label>
+                            <div className="flex bg-slate-950 p-1 rounded-xl border border-slate-700">
+                                {(['csv', 'srt', 'vtt'] as ExportFormat[]).map(format => {
+                                    const disabled = format !== 'csv' && subtitleVideos.length === 0;
+                                    return (
+                                        <button
+                                            key={format}
+                                            onClick={() => setExportFormat(format)}
+                                            disabled={disabled}
+                                            title={disabled ? "No timed transcripts to export" : undefined}
+                                            className={`flex-1 py-1.5 rounded-lg text-xs font-bold uppercase transition-all ${exportFormat === format ? 'bg-emerald-600 text-white' : disabled ? 'text-slate-700 cursor-not-allowed' : 'text-slate-400 hover:text-white hover:bg-slate-800 cursor-pointer'}`}
+                                        >
+                                            {format}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
+                    {exportFormat !== 'csv' && (
+                        <div className="space-y-2">
+                            <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                                <input type="radio" checked={bundleAsZip} onChange={() => setBundleAsZip(true)} className="accent-emerald-500" />
+                                Single ZIP archive
+                            </label>
+                            <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                                <input type="radio" checked={!bundleAsZip} onChange={() => setBundleAsZip(false)} className="accent-emerald-500" />
+                                One file per video
+                            </label>
+                            <p className="text-[10px] text-slate-500">{subtitleVideos.length} of {data.length} videos have timed transcripts. Files are named after each video title.</p>
+                        </div>
+                    )}
+                    {(exportFormat === 'csv' || bundleAsZip) && (
                     <div>
-                        <label className="text-xs text-slate-400 block mb-1.5">Filename</label>
+                        <label className="text-xs text-slate-400 block mb-1.5">{exportFormat === 'csv' ? 'Filename' : 'Archive Name'}</label>
                         <input 
                             type="text" 
                             value={filename}
@@ -536,9 +912,12 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({ data, mode, videoTyp
                             className="w-full bg-slate-950 border border-slate-700 rounded-xl p-3 text-sm text-slate-200 focus:ring-2 focus:ring-emerald-500 outline-none"
                         />
                     </div>
+                    )}
                     <div className="flex justify-end gap-3 mt-6">
                         <button onClick={() => setIsModalOpen(false)} className="text-sm text-slate-400 hover:text-white px-4 py-2 transition-colors">Cancel</button>
-                        <button onClick={executeDownload} className="bg-emerald-600 hover:bg-emerald-500 text-white px-6 py-2 rounded-xl text-sm font-bold shadow-lg shadow-emerald-900/20">Download CSV</button>
+                        <button onClick={executeDownload} className="bg-emerald-600 hover:bg-emerald-500 text-white px-6 py-2 rounded-xl text-sm font-bold shadow-lg shadow-emerald-900/20">
+                            {exportFormat === 'csv' ? 'Download CSV' : bundleAsZip ? 'Download ZIP' : `Download ${subtitleVideos.length} Files`}
+                        </button>
                     </div>
                 </div>
             </div>
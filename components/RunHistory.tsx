@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { X, History, FolderOpen, PlayCircle, Trash2, Loader2 } from 'lucide-react';
+import { SavedRun, ScrapeMode } from '../types';
+import { listRuns, deleteRun, getResumableVideoIds } from '../services/runHistoryService';
+
+interface RunHistoryProps {
+  toolType: SavedRun['toolType'];
+  activeRunId: string | null;
+  isBusy: boolean; // A run is in progress; opening or resuming another is blocked
+  onOpen: (run: SavedRun) => void;
+  onResume: (run: SavedRun) => void;
+  onClose: () => void;
+}
+
+const MODE_LABELS: Record<ScrapeMode, string> = {
+  'single-video': 'Single Video',
+  'batch-videos': 'Batch Links',
+  'single-channel': 'Channel',
+  'playlist': 'Playlist',
+  'keyword-search': 'Keyword Search',
+  'analyze-single': 'Single Video',
+  'analyze-multi': 'Batch Links',
+  'analyze-playlist': 'Playlist',
+  'analyze-search': 'Keyword Search',
+  'analyze-channels': 'Channel Comparison',
+};
+
+// Helper: Per-state video counts for the summary line
+const countStatuses = (run: SavedRun) => {
+  const counts = { success: 0, failed: 0, pending: 0 };
+  run.videos.forEach(video => {
+    const state = video.transcriptStatus?.state;
+    if (state === 'success') counts.success++;
+    else if (state === 'failed' || state === 'unavailable') counts.failed++;
+    else counts.pending++;
+  });
+  return counts;
+};
+
+export const RunHistory: React.FC<RunHistoryProps> = ({ toolType, activeRunId, isBusy, onOpen, onResume, onClose }) => {
+  const [runs, setRuns] = useState<SavedRun[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listRuns()
+      .then(all => setRuns(all.filter(run => run.toolType === toolType)))
+      .catch((e: any) => setError(e?.message || 'Could not open the run history.'));
+  }, [toolType]);
+
+  const handleDelete = async (id: string) => {
+    await deleteRun(id);
+    setRuns(prev => (prev || []).filter(run => run.id !== id));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative bg-slate-900 border border-slate-700 w-full max-w-2xl rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[80vh] animate-fade-in">
+
+        {/* Header */}
+        <div className="bg-slate-950/50 px-6 py-4 border-b border-slate-800 flex items-center justify-between">
+          <h3 className="text-lg font-bold text-slate-100 flex items-center gap-2">
+            <History size={18} className="text-indigo-500" />
+            Runs
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-slate-500 hover:text-slate-300 transition-colors p-1 rounded-lg hover:bg-slate-800 cursor-pointer"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Run List */}
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-2">
+          {error && <p className="text-sm text-red-400 p-2">{error}</p>}
+          {!runs && !error && (
+            <div className="flex items-center justify-center gap-2 text-slate-500 text-sm p-6">
+              <Loader2 size={16} className="animate-spin" /> Loading runs...
+            </div>
+          )}
+          {runs && runs.length === 0 && (
+            <p className="text-sm text-slate-500 text-center p-6">No saved runs yet. Runs are saved automatically as they progress.</p>
+          )}
+          {runs && runs.map(run => {
+            const isActive = run.id === activeRunId;
+            // A run still marked running that is not the live one was cut off (reload, back, crash)
+            const isInterrupted = run.status === 'running' && !isActive;
+            const counts = countStatuses(run);
+            const resumable = getResumableVideoIds(run).length;
+
+            return (
+              <div key={run.id} className={`flex items-center gap-4 p-3 rounded-xl border ${isActive ? 'border-indigo-500/40 bg-indigo-500/5' : 'border-slate-800 bg-slate-950/30'}`}>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-semibold text-slate-200">{MODE_LABELS[run.settings.mode] || run.settings.mode}</span>
+                    <span className={`text-[10px] font-bold uppercase tracking-wide px-1.5 py-0.5 rounded border ${
+                      isActive ? 'text-indigo-300 border-indigo-500/30'
+                      : isInterrupted ? 'text-amber-400 border-amber-500/30'
+                      : run.status === 'completed' ? 'text-emerald-400 border-emerald-500/30'
+                      : 'text-slate-400 border-slate-700'
+                    }`}>
+                      {isActive ? 'Current' : isInterrupted ? 'Interrupted' : run.status}
+                    </span>
+                  </div>
+                  <p className="text-xs text-slate-500 truncate mt-0.5" title={run.settings.input}>{run.settings.input}</p>
+                  <p className="text-[10px] text-slate-600 mt-1">
+                    {new Date(run.createdAt).toLocaleString()} · {run.videos.length} videos
+                    {toolType === 'transcript' && ` · ${counts.success} ok, ${counts.failed} failed, ${counts.pending} pending`}
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-1 shrink-0">
+                  <button
+                    onClick={() => onOpen(run)}
+                    disabled={isBusy || isActive}
+                    className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed"
+                    title="Open results"
+                  >
+                    <FolderOpen size={16} />
+                  </button>
+                  {resumable > 0 && (
+                    <button
+                      onClick={() => onResume(run)}
+                      disabled={isBusy}
+                      className="p-2 rounded-lg text-emerald-400 hover:text-emerald-300 hover:bg-slate-800 transition-colors cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed"
+                      title={`Resume: fetch the ${resumable} remaining transcript(s)`}
+                    >
+                      <PlayCircle size={16} />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleDelete(run.id)}
+                    disabled={isActive}
+                    className="p-2 rounded-lg text-slate-500 hover:text-red-400 hover:bg-slate-800 transition-colors cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed"
+                    title="Delete run"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
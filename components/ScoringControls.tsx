@@ -0,0 +1,61 @@
+import React from 'react';
+import { SlidersHorizontal, RotateCcw } from 'lucide-react';
+import { SCORING_MODELS, ScoringModelId, ScoringWeights, getScoringModel, getDefaultWeights, resolveWeights } from '../services/scoringService';
+
+interface ScoringControlsProps {
+  modelId: ScoringModelId;
+  weights?: ScoringWeights; // Stored weights for `modelId`; defaults fill the gaps
+  onChange: (modelId: ScoringModelId, weights: ScoringWeights) => void;
+}
+
+// "Rank by" model picker with the chosen model's weights
+export const ScoringControls: React.FC<ScoringControlsProps> = ({ modelId, weights, onChange }) => {
+  const model = getScoringModel(modelId);
+  const resolved = resolveWeights(model, weights);
+
+  return (
+    <div className="mb-4 p-4 rounded-2xl border border-slate-700/60 bg-slate-900/60 flex flex-col lg:flex-row lg:items-end gap-4">
+      <div className="space-y-1.5 lg:w-64 shrink-0">
+        <label className="text-xs font-semibold text-slate-400 flex items-center gap-1.5">
+          <SlidersHorizontal size={12} /> Rank By
+        </label>
+        <select
+          value={model.id}
+          onChange={(e) => onChange(e.target.value as ScoringModelId, resolveWeights(getScoringModel(e.target.value)))}
+          className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-emerald-500 cursor-pointer"
+        >
+          {SCORING_MODELS.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 flex-1">
+        {model.weights.map(weight => (
+          <div key={weight.key} className="space-y-1.5">
+            <label className="text-[10px] font-semibold text-slate-500 uppercase tracking-wide">{weight.label}</label>
+            <input
+              type="number"
+              min={weight.min}
+              max={weight.max}
+              step={weight.step}
+              value={resolved[weight.key]}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (!isNaN(value)) onChange(model.id, { ...resolved, [weight.key]: value });
+              }}
+              className="w-24 bg-slate-950 border border-slate-700 rounded-lg px-2 py-2 text-sm text-slate-200 font-mono outline-none focus:ring-2 focus:ring-emerald-500"
+            />
+          </div>
+        ))}
+        <button
+          onClick={() => onChange(model.id, getDefaultWeights(model))}
+          className="flex items-center gap-1 text-[10px] text-slate-500 hover:text-slate-300 px-2 py-2.5 transition-colors cursor-pointer"
+          title="Reset weights to defaults"
+        >
+          <RotateCcw size={12} /> Defaults
+        </button>
+      </div>
+
+      <p className="text-[11px] text-slate-500 lg:max-w-xs leading-snug">{model.description}</p>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Type, Download, ChevronUp, ChevronDown } from 'lucide-react';
+import { TitlePatternStat } from '../services/titlePatternService';
+
+interface TitlePatternReportProps {
+  stats: TitlePatternStat[];
+  metricName: string; // What "performance" means here, e.g. the scoring model's name
+  formatValue: (value: number | null) => string;
+  onExport: () => void;
+}
+
+type SortKey = 'label' | 'count' | 'medianWith' | 'lift';
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'label', label: 'Pattern' },
+  { key: 'count', label: 'Videos' },
+  { key: 'medianWith', label: 'Median With' },
+  { key: 'lift', label: 'Lift' },
+];
+
+// "What titles work": title patterns against performance, sortable by any column
+export const TitlePatternReport: React.FC<TitlePatternReportProps> = ({ stats, metricName, formatValue, onExport }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('lift');
+  const [descending, setDescending] = useState(true);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setDescending(!descending);
+    } else {
+      setSortKey(key);
+      setDescending(key !== 'label');
+    }
+  };
+
+  // Missing values sort last in either direction
+  const sorted = [...stats].sort((a, b) => {
+    if (sortKey === 'label') return descending ? b.label.localeCompare(a.label) : a.label.localeCompare(b.label);
+    const av = a[sortKey];
+    const bv = b[sortKey];
+    if (av === null || bv === null) return av === null ? (bv === null ? 0 : 1) : -1;
+    return descending ? bv - av : av - bv;
+  });
+
+  return (
+    <div className="mb-4 rounded-2xl border border-slate-700/60 bg-slate-900/60 overflow-hidden">
+      <div className="px-4 py-3 border-b border-slate-800 flex items-center justify-between gap-4">
+        <div>
+          <h3 className="text-sm font-bold text-slate-300 uppercase tracking-widest flex items-center gap-2">
+            <Type size={16} className="text-indigo-400" /> What Titles Work
+          </h3>
+          <p className="text-[11px] text-slate-500 mt-0.5">
+            Median {metricName} of videos whose titles match each pattern, against the rest. Lift above 1x goes with better performance.
+          </p>
+        </div>
+        <button
+          onClick={onExport}
+          className="flex items-center gap-1.5 text-xs font-semibold px-3 py-1.5 rounded-lg bg-emerald-600/10 border border-emerald-500/20 text-emerald-400 hover:bg-emerald-600/20 transition-colors cursor-pointer shrink-0"
+          title="Download the title pattern report as CSV"
+        >
+          <Download size={14} /> Export Report
+        </button>
+      </div>
+      <div className="max-h-80 overflow-y-auto custom-scrollbar">
+        <table className="w-full text-left border-collapse text-sm">
+          <thead className="bg-slate-950/80 text-slate-400 text-xs uppercase tracking-wider font-semibold sticky top-0">
+            <tr>
+              {COLUMNS.map(column => (
+                <th key={column.key} className="px-4 py-2 border-b border-slate-800">
+                  <button onClick={() => handleSort(column.key)} className="flex items-center gap-1 hover:text-slate-200 transition-colors cursor-pointer uppercase">
+                    {column.label}
+                    {sortKey === column.key && (descending ? <ChevronDown size={12} /> : <ChevronUp size={12} />)}
+                  </button>
+                </th>
+              ))}
+              <th className="px-4 py-2 border-b border-slate-800">Median Without</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800/60 text-slate-300">
+            {sorted.map(stat => (
+              <tr key={stat.id} className="hover:bg-slate-800/40 transition-colors">
+                <td className="px-4 py-2">{stat.label}</td>
+                <td className="px-4 py-2 font-mono text-slate-400">{stat.count} <span className="text-slate-600">({Math.round(stat.share)}%)</span></td>
+                <td className="px-4 py-2 font-mono">{formatValue(stat.medianWith)}</td>
+                <td className={`px-4 py-2 font-mono font-semibold ${stat.lift === null ? 'text-slate-500' : stat.lift >= 1 ? 'text-emerald-400' : 'text-red-400'}`}>
+                  {stat.lift === null ? '—' : `${stat.lift.toFixed(2)}x`}
+                </td>
+                <td className="px-4 py-2 font-mono text-slate-500">{formatValue(stat.medianWithout)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
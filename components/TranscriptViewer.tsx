@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { X, Clock, ExternalLink } from 'lucide-react';
+import { VideoData } from '../types';
+
+interface TranscriptViewerProps {
+  video: VideoData;
+  onClose: () => void;
+}
+
+// Format seconds as m:ss or h:mm:ss
+const formatTimestamp = (totalSeconds: number): string => {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const mm = h > 0 ? m.toString().padStart(2, '0') : m.toString();
+  return `${h > 0 ? `${h}:` : ''}${mm}:${s.toString().padStart(2, '0')}`;
+};
+
+// Deep link into the video at a given second
+const getTimestampUrl = (video: VideoData, seconds: number): string =>
+  `${video.url}&t=${Math.floor(seconds)}s`;
+
+export const TranscriptViewer: React.FC<TranscriptViewerProps> = ({ video, onClose }) => {
+  const tracks = video.transcriptTracks && video.transcriptTracks.length > 1 ? video.transcriptTracks : null;
+  const [trackIndex, setTrackIndex] = useState(0);
+  const segments = tracks ? tracks[trackIndex].segments : video.transcriptSegments || [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative bg-slate-900 border border-slate-700 w-full max-w-2xl rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[80vh] animate-fade-in">
+
+        {/* Header */}
+        <div className="bg-slate-950/50 px-6 py-4 border-b border-slate-800 flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h3 className="text-lg font-bold text-slate-100 flex items-center gap-2">
+              <Clock size={18} className="text-indigo-500 shrink-0" />
+              Timed Transcript
+            </h3>
+            <p className="text-xs text-slate-500 truncate mt-1" title={video.title}>{video.title}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-500 hover:text-slate-300 transition-colors p-1 rounded-lg hover:bg-slate-800 cursor-pointer"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Language Tabs */}
+        {tracks && (
+          <div className="flex gap-2 px-6 pt-4">
+            {tracks.map((track, idx) => (
+              <button
+                key={track.language}
+                onClick={() => setTrackIndex(idx)}
+                title={track.languageInferred ? 'Language not reported by the provider; this is the one requested' : undefined}
+                className={`px-3 py-1 rounded-lg text-xs font-mono font-bold uppercase border transition-all cursor-pointer ${idx === trackIndex ? 'bg-indigo-600/20 border-indigo-500 text-white' : 'bg-slate-950 border-slate-700 text-slate-400 hover:bg-slate-800'}`}
+              >
+                {track.language}{track.languageInferred ? '?' : ''}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Segments */}
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-1">
+          {segments.map((segment, idx) => (
+            <div key={idx} className="flex items-start gap-3 px-2 py-1.5 rounded-lg hover:bg-slate-800/40 group">
+              <a
+                href={getTimestampUrl(video, segment.start)}
+                target="_blank"
+                rel="noreferrer"
+                className="shrink-0 w-16 font-mono text-xs text-indigo-400 hover:text-indigo-300 pt-0.5 flex items-center gap-1"
+                title="Open video at this moment"
+              >
+                {formatTimestamp(segment.start)}
+                <ExternalLink size={10} className="opacity-0 group-hover:opacity-100 transition-opacity" />
+              </a>
+              <span className="text-sm text-slate-300 leading-relaxed">{segment.text}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="px-6 py-3 bg-slate-950/30 border-t border-slate-800 text-[10px] text-slate-500 uppercase tracking-wide font-bold">
+          {segments.length} segments{!tracks && video.transcriptLanguage ? ` · ${video.transcriptLanguage}` : ''}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Timer } from 'lucide-react';
+import { UploadGap, summarizeUploadGaps } from '../services/scheduleService';
+
+interface UploadCadenceChartProps {
+  gapsByChannel: Record<string, UploadGap[]>;
+  channelTitles: Record<string, string>;
+}
+
+const WIDTH = 720;
+const HEIGHT = 160;
+const PAD = { top: 10, right: 10, bottom: 20, left: 36 };
+
+// Helper: "3.2d" or "14h"
+const formatGap = (days: number) => days >= 1 ? `${days.toFixed(1)}d` : `${Math.round(days * 24)}h`;
+
+// Days between consecutive uploads of one channel, oldest upload on the left
+export const UploadCadenceChart: React.FC<UploadCadenceChartProps> = ({ gapsByChannel, channelTitles }) => {
+  const channels = Object.keys(gapsByChannel);
+  const [selected, setSelected] = useState<string>(channels[0]);
+  const channel = gapsByChannel[selected] ? selected : channels[0];
+  const gaps = (gapsByChannel[channel] || []).filter(gap => gap.gapDays !== null);
+  const summary = summarizeUploadGaps(gapsByChannel[channel] || []);
+
+  const plotWidth = WIDTH - PAD.left - PAD.right;
+  const plotHeight = HEIGHT - PAD.top - PAD.bottom;
+  const maxGap = Math.max(1, ...gaps.map(gap => gap.gapDays || 0));
+  const barWidth = gaps.length > 0 ? plotWidth / gaps.length : plotWidth;
+  const y = (days: number) => PAD.top + plotHeight - (days / maxGap) * plotHeight;
+
+  return (
+    <div className="mb-4 p-4 rounded-2xl border border-slate-700/60 bg-slate-900/60">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <h3 className="text-sm font-bold text-slate-300 uppercase tracking-widest flex items-center gap-2">
+          <Timer size={16} className="text-indigo-400" /> Upload Cadence
+        </h3>
+        {channels.length > 1 && (
+          <select
+            value={channel}
+            onChange={(e) => setSelected(e.target.value)}
+            className="bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 outline-none cursor-pointer"
+          >
+            {channels.map(id => <option key={id} value={id}>{channelTitles[id] || id}</option>)}
+          </select>
+        )}
+      </div>
+
+      {summary ? (
+        <>
+          <div className="flex flex-wrap gap-6 mb-3">
+            <div>
+              <div className="text-lg font-black text-white">{formatGap(summary.median)}</div>
+              <div className="text-[10px] text-slate-500 uppercase font-bold tracking-wider">Median gap</div>
+            </div>
+            <div>
+              <div className="text-lg font-black text-white">{formatGap(summary.mean)}</div>
+              <div className="text-[10px] text-slate-500 uppercase font-bold tracking-wider">Average gap</div>
+            </div>
+            <div>
+              <div className="text-lg font-black text-white">{formatGap(summary.longest)}</div>
+              <div className="text-[10px] text-slate-500 uppercase font-bold tracking-wider">Longest gap</div>
+            </div>
+          </div>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+            <line x1={PAD.left} y1={y(0)} x2={WIDTH - PAD.right} y2={y(0)} stroke="#334155" strokeWidth="1" />
+            <text x={PAD.left - 6} y={y(maxGap) + 4} textAnchor="end" fontSize="10" fill="#64748b">{formatGap(maxGap)}</text>
+            <text x={PAD.left - 6} y={y(0)} textAnchor="end" fontSize="10" fill="#64748b">0</text>
+            {gaps.map((gap, i) => (
+              <rect
+                key={gap.videoId}
+                x={PAD.left + i * barWidth + barWidth * 0.15}
+                y={y(gap.gapDays || 0)}
+                width={Math.max(1, barWidth * 0.7)}
+                height={Math.max(0, y(0) - y(gap.gapDays || 0))}
+                rx="1.5"
+                fill={(gap.gapDays || 0) > summary.median * 2 ? '#f59e0b' : '#6366f1'}
+              >
+                <title>{`${formatGap(gap.gapDays || 0)} before "${gap.title}" (${new Date(gap.publishedAt).toLocaleDateString()})`}</title>
+              </rect>
+            ))}
+            <line x1={PAD.left} y1={y(summary.median)} x2={WIDTH - PAD.right} y2={y(summary.median)} stroke="#10b981" strokeWidth="1" strokeDasharray="4 3" />
+            <text x={WIDTH - PAD.right} y={y(summary.median) - 4} textAnchor="end" fontSize="10" fill="#10b981">median</text>
+            <text x={PAD.left} y={HEIGHT - 4} fontSize="10" fill="#64748b">{new Date(gaps[0].publishedAt).toLocaleDateString()}</text>
+            <text x={WIDTH - PAD.right} y={HEIGHT - 4} textAnchor="end" fontSize="10" fill="#64748b">{new Date(gaps[gaps.length - 1].publishedAt).toLocaleDateString()}</text>
+          </svg>
+          <p className="text-[10px] text-slate-600 mt-1">Each bar is the wait before an upload. Amber bars are more than twice the median gap.</p>
+        </>
+      ) : (
+        <p className="text-xs text-slate-500">At least two uploads are needed to measure cadence.</p>
+      )}
+    </div>
+  );
+};
@@ -1,48 +1,81 @@
 import React from 'react';
-import { Zap, Key } from 'lucide-react';
+import { Youtube } from 'lucide-react';
 import { TranscriptProvider } from '../types';
+import { getTranscriptProvider } from '../services/transcriptProviders';
 
 interface UsageStatsProps {
+  usage?: number;
+  provider?: TranscriptProvider;
+  // YouTube Data API quota for the current Pacific day
+  youtubeUsed: number;
+  youtubeLimit: number;
+}
+
+interface UsageBarProps {
+  icon: React.ReactNode;
   usage: number;
-  provider: TranscriptProvider;
+  limit: number;
+  title: string;
+  theme: { color: string; barColor: string; glowColor: string };
 }
 
-export const UsageStats: React.FC<UsageStatsProps> = ({
-  usage,
-  provider
-}) => {
-  const isSupadata = provider === 'supadata';
-  const limit = isSupadata ? 100 : 20;
-  const percentage = Math.min(100, Math.max(0, (usage / limit) * 100));
-  
-  // Theme configuration based on provider
-  const theme = isSupadata ? {
-    color: 'text-yellow-400',
-    barColor: 'bg-yellow-500',
-    glowColor: 'shadow-[0_0_8px_rgba(234,179,8,0.5)]',
-  } : {
-    color: 'text-blue-400',
-    barColor: 'bg-blue-500',
-    glowColor: 'shadow-[0_0_8px_rgba(59,130,246,0.5)]',
-  };
+const UsageBar: React.FC<UsageBarProps> = ({ icon, usage, limit, title, theme }) => {
+  const percentage = Math.min(100, Math.max(0, (usage / Math.max(1, limit)) * 100));
 
   return (
-    <div className="w-full flex items-center gap-3 animate-fade-in mt-4 px-1" title={isSupadata ? "Supadata Usage" : "RapidAPI Usage"}>
+    <div className="flex-1 flex items-center gap-3 min-w-0" title={title}>
       {/* Icon */}
-      {isSupadata ? <Zap size={14} className={theme.color} /> : <Key size={14} className={theme.color} />}
-      
+      {icon}
+
       {/* Minimal Thin Bar */}
       <div className="flex-1 h-1.5 bg-slate-800/80 rounded-full overflow-hidden border border-slate-700/50">
-         <div 
-           className={`h-full ${theme.barColor} transition-all duration-700 ${theme.glowColor}`} 
-           style={{ width: `${percentage}%` }} 
+         <div
+           className={`h-full ${theme.barColor} transition-all duration-700 ${theme.glowColor}`}
+           style={{ width: `${percentage}%` }}
          />
       </div>
 
       {/* Numbers */}
       <div className={`text-xs font-mono font-bold ${theme.color}`}>
-         {usage}<span className="text-slate-600">/</span>{limit}
+         {usage.toLocaleString()}<span className="text-slate-600">/</span>{limit.toLocaleString()}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
+
+export const UsageStats: React.FC<UsageStatsProps> = ({
+  usage = 0,
+  provider,
+  youtubeUsed,
+  youtubeLimit
+}) => {
+  const definition = provider ? getTranscriptProvider(provider) : undefined;
+  const ProviderIcon = definition?.theme.icon;
+
+  const youtubeTheme = {
+    color: 'text-red-400',
+    barColor: 'bg-red-500',
+    glowColor: 'shadow-[0_0_8px_rgba(239,68,68,0.5)]',
+  };
+
+  return (
+    <div className="w-full flex flex-col sm:flex-row sm:items-center gap-3 sm:gap-6 animate-fade-in mt-4 px-1">
+      {definition && ProviderIcon && (
+        <UsageBar
+          icon={<ProviderIcon size={14} className={definition.theme.text} />}
+          usage={usage}
+          limit={definition.quotaLimit}
+          title={`${definition.shortName} Usage`}
+          theme={{ color: definition.theme.text, barColor: definition.theme.bar, glowColor: definition.theme.glow }}
+        />
+      )}
+      <UsageBar
+        icon={<Youtube size={14} className={youtubeTheme.color} />}
+        usage={youtubeUsed}
+        limit={youtubeLimit}
+        title="YouTube Data API quota used today (resets at midnight Pacific)"
+        theme={youtubeTheme}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import { X, Radar, RefreshCw, Plus, Trash2, Film, Tv, Loader2, Timer } from 'lucide-react';
+import { StatsSnapshot, WatchlistEntry } from '../types';
+import {
+  WATCHLIST_INTERVAL_OPTIONS,
+  getWatchlist,
+  getSnapshotsForVideos,
+  getChannelSnapshots,
+  getViewGrowth,
+  getChannelViewGrowth,
+  subscribeToSnapshots,
+  watchChannel,
+  unwatch,
+} from '../services/snapshotService';
+import { GrowthSparkline, formatViewGrowth } from './GrowthSparkline';
+
+interface WatchlistProps {
+  youtubeApiKey: string;
+  isSnapshotting: boolean;
+  onSnapshot: () => void;
+  interval: number; // Minutes between automatic snapshots, 0 = off
+  onIntervalChange: (minutes: number) => void;
+  onClose: () => void;
+}
+
+const INTERVAL_LABELS: Record<number, string> = { 0: 'Off', 15: '15 min', 60: '1 hour', 360: '6 hours' };
+
+export const Watchlist: React.FC<WatchlistProps> = ({ youtubeApiKey, isSnapshotting, onSnapshot, interval, onIntervalChange, onClose }) => {
+  const [entries, setEntries] = useState<WatchlistEntry[] | null>(null);
+  const [snapshots, setSnapshots] = useState<Record<string, StatsSnapshot[]>>({});
+  const [channelInput, setChannelInput] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload whenever a snapshot lands or the list changes (see subscribeToSnapshots)
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const list = await getWatchlist();
+        const videoSnapshots = await getSnapshotsForVideos(list.filter(e => e.kind === 'video').map(e => e.id));
+        const channelSnapshots = await Promise.all(list.filter(e => e.kind === 'channel').map(async e => [e.id, await getChannelSnapshots(e.id)] as const));
+        setEntries(list);
+        setSnapshots({ ...videoSnapshots, ...Object.fromEntries(channelSnapshots) });
+      } catch (e: any) {
+        setError(e?.message || 'Could not open the watchlist.');
+      }
+    };
+    load();
+    return subscribeToSnapshots(load);
+  }, []);
+
+  const handleAddChannel = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!channelInput.trim()) return;
+    if (!youtubeApiKey) {
+      setError("Please enter a YouTube Data API Key in the settings.");
+      return;
+    }
+    setIsAdding(true);
+    setError(null);
+    try {
+      await watchChannel(channelInput, youtubeApiKey);
+      setChannelInput('');
+      onSnapshot(); // Take the first reading right away
+    } catch (err: any) {
+      setError(err.message || 'Could not add the channel.');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative bg-slate-900 border border-slate-700 w-full max-w-3xl rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[85vh] animate-fade-in">
+
+        {/* Header */}
+        <div className="bg-slate-950/50 px-6 py-4 border-b border-slate-800 flex items-center justify-between gap-4">
+          <h3 className="text-lg font-bold text-slate-100 flex items-center gap-2">
+            <Radar size={18} className="text-emerald-500" />
+            Watchlist
+          </h3>
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-1.5 text-xs text-slate-400" title="Re-snapshot automatically while this tab is open">
+              <Timer size={14} />
+              <select
+                value={interval}
+                onChange={(e) => onIntervalChange(parseInt(e.target.value))}
+                className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 outline-none cursor-pointer"
+              >
+                {WATCHLIST_INTERVAL_OPTIONS.map(minutes => (
+                  <option key={minutes} value={minutes}>{INTERVAL_LABELS[minutes] || `${minutes} min`}</option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={onSnapshot}
+              disabled={isSnapshotting || !entries || entries.length === 0}
+              className="flex items-center gap-1.5 text-xs font-semibold px-3 py-1.5 rounded-lg bg-emerald-600/10 border border-emerald-500/20 text-emerald-400 hover:bg-emerald-600/20 transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Fetch current stats for everything on the watchlist (about 1 quota unit per 50 videos)"
+            >
+              <RefreshCw size={14} className={isSnapshotting ? 'animate-spin' : ''} /> Snapshot Now
+            </button>
+            <button
+              onClick={onClose}
+              className="text-slate-500 hover:text-slate-300 transition-colors p-1 rounded-lg hover:bg-slate-800 cursor-pointer"
+            >
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        {/* Add Channel */}
+        <form onSubmit={handleAddChannel} className="px-6 py-3 border-b border-slate-800 flex items-center gap-2">
+          <input
+            type="text"
+            value={channelInput}
+            onChange={(e) => setChannelInput(e.target.value)}
+            placeholder="Watch a channel: @handle or channel URL"
+            className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-emerald-500 outline-none placeholder:text-slate-600"
+          />
+          <button
+            type="submit"
+            disabled={isAdding || !channelInput.trim()}
+            className="flex items-center gap-1.5 text-xs font-semibold px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-slate-300 hover:text-white hover:bg-slate-700 transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {isAdding ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />} Add
+          </button>
+        </form>
+
+        {/* Entries */}
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-2">
+          {error && <p className="text-sm text-red-400 p-2">{error}</p>}
+          {!entries && !error && (
+            <div className="flex items-center justify-center gap-2 text-slate-500 text-sm p-6">
+              <Loader2 size={16} className="animate-spin" /> Loading watchlist...
+            </div>
+          )}
+          {entries && entries.length === 0 && (
+            <p className="text-sm text-slate-500 text-center p-6">Nothing watched yet. Add a channel above, or watch videos from the analysis results.</p>
+          )}
+          {entries && entries.map(entry => {
+            const entrySnapshots = snapshots[entry.id] || [];
+            const isChannel = entry.kind === 'channel';
+            const growth24h = isChannel ? getChannelViewGrowth(entrySnapshots, 24) : getViewGrowth(entrySnapshots, 24);
+            const growth7d = isChannel ? getChannelViewGrowth(entrySnapshots, 24 * 7) : getViewGrowth(entrySnapshots, 24 * 7);
+
+            return (
+              <div key={entry.id} className="flex items-center gap-4 p-3 rounded-xl border border-slate-800 bg-slate-950/30">
+                {isChannel ? <Tv size={16} className="text-indigo-400 shrink-0" /> : <Film size={16} className="text-slate-500 shrink-0" />}
+                <div className="flex-1 min-w-0">
+                  <a
+                    href={isChannel ? `https://www.youtube.com/channel/${entry.id}` : `https://www.youtube.com/watch?v=${entry.id}`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="text-sm font-medium text-slate-200 hover:text-emerald-400 transition-colors truncate block"
+                    title={entry.title}
+                  >
+                    {entry.title}
+                  </a>
+                  <p className="text-[10px] text-slate-600 mt-0.5">
+                    {isChannel ? 'Latest uploads' : 'Video'} · {entry.lastSnapshotAt ? `last snapshot ${new Date(entry.lastSnapshotAt).toLocaleString()}` : 'not snapshotted yet'}
+                  </p>
+                </div>
+                {!isChannel && <GrowthSparkline snapshots={entrySnapshots} className="text-emerald-400 shrink-0" />}
+                <div className="w-28 text-right shrink-0">
+                  <div className="text-xs font-semibold text-emerald-400" title="Views gained in the last 24 hours">{formatViewGrowth(growth24h, 24)} <span className="text-slate-600 font-normal">24h</span></div>
+                  <div className="text-xs text-slate-400" title="Views gained in the last 7 days">{formatViewGrowth(growth7d, 24 * 7)} <span className="text-slate-600">7d</span></div>
+                </div>
+                <button
+                  onClick={() => unwatch(entry.id)}
+                  className="p-2 rounded-lg text-slate-500 hover:text-red-400 hover:bg-slate-800 transition-colors cursor-pointer shrink-0"
+                  title="Stop watching"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import { VideoData, ChannelProfile, TranscriptProvider, TranscriptSegment, TranscriptTrack } from '../types';
+import { STORES, getRecord, putRecord, putRecords, clearStore } from './db';
+
+// Video statistics go stale; anything older than the TTL is fetched again. 0 turns the metadata cache off.
+const STATS_TTL_STORAGE_KEY = 'cache_stats_ttl_hours';
+export const DEFAULT_STATS_TTL_HOURS = 24;
+export const MAX_STATS_TTL_HOURS = 24 * 30;
+
+interface CachedVideo {
+  id: string;
+  video: VideoData;
+  cachedAt: number; // epoch ms
+}
+
+interface CachedChannel {
+  id: string;
+  channel: ChannelProfile;
+  cachedAt: number;
+}
+
+// Transcripts never change once published, so they are kept until the cache is cleared
+export interface CachedTranscript {
+  key: string; // See getTranscriptCacheKey
+  videoId: string;
+  text: string;
+  segments: TranscriptSegment[];
+  language?: string;
+  tracks?: TranscriptTrack[];
+  provider?: TranscriptProvider;
+  cachedAt: number;
+}
+
+// Video details one getVideoDetails call served from the cache
+export interface CacheHitEvent {
+  type: 'hits';
+  hits: number;
+  total: number;
+}
+
+// IndexedDB failed; sent once per page load, after which the cache degrades silently
+export interface CacheUnavailableEvent {
+  type: 'unavailable';
+  message: string;
+}
+
+export type CacheEvent = CacheHitEvent | CacheUnavailableEvent;
+
+type CacheListener = (event: CacheEvent) => void;
+const listeners = new Set<CacheListener>();
+let unavailableReported = false;
+
+export const getStatsTtlHours = (): number => {
+  const stored = parseInt(localStorage.getItem(STATS_TTL_STORAGE_KEY) || '');
+  return isNaN(stored) ? DEFAULT_STATS_TTL_HOURS : Math.min(MAX_STATS_TTL_HOURS, Math.max(0, stored));
+};
+
+export const setStatsTtlHours = (hours: number) => {
+  localStorage.setItem(STATS_TTL_STORAGE_KEY, Math.min(MAX_STATS_TTL_HOURS, Math.max(0, hours)).toString());
+};
+
+export const subscribeToCacheEvents = (listener: CacheListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const reportCacheHits = (hits: number, total: number) => {
+  if (hits > 0) listeners.forEach(listener => listener({ type: 'hits', hits, total }));
+};
+
+// Helper: Tell listeners the cache is unavailable, the first time a lookup or write fails
+const reportUnavailable = (error: any) => {
+  if (unavailableReported) return;
+  unavailableReported = true;
+  const event: CacheUnavailableEvent = { type: 'unavailable', message: error?.message || String(error) };
+  listeners.forEach(listener => listener(event));
+};
+
+// The cache is an optimisation: when IndexedDB is unavailable (private mode, blocked), every lookup misses
+// and every write is dropped, and the scrape goes to the network as if there were no cache.
+// The first failure is reported once through the cache listeners.
+
+// Fresh cached details for the given IDs. Stale and missing IDs are simply absent from the map.
+export const getCachedVideos = async (videoIds: string[]): Promise<Map<string, VideoData>> => {
+  const found = new Map<string, VideoData>();
+  const ttlMs = getStatsTtlHours() * 60 * 60 * 1000;
+  if (ttlMs === 0) return found;
+
+  try {
+    const entries = await Promise.all(videoIds.map(id => getRecord<CachedVideo>(STORES.videoCache, id)));
+    const now = Date.now();
+    entries.forEach(entry => {
+      if (entry && now - entry.cachedAt < ttlMs) found.set(entry.id, entry.video);
+    });
+  } catch (error) {
+    reportUnavailable(error);
+  }
+  return found;
+};
+
+export const cacheVideos = async (videos: VideoData[]): Promise<void> => {
+  const cachedAt = Date.now();
+  try {
+    await putRecords<CachedVideo>(STORES.videoCache, videos.map(video => ({ id: video.id, video, cachedAt })));
+  } catch (error) {
+    reportUnavailable(error);
+  }
+};
+
+// Channel profiles share the statistics TTL. `allowStale` returns whatever is stored,
+// for showing the profiles of a saved run without spending quota.
+export const getCachedChannels = async (channelIds: string[], allowStale = false): Promise<Map<string, ChannelProfile>> => {
+  const found = new Map<string, ChannelProfile>();
+  const ttlMs = getStatsTtlHours() * 60 * 60 * 1000;
+  if (ttlMs === 0 && !allowStale) return found;
+
+  try {
+    const entries = await Promise.all(channelIds.map(id => getRecord<CachedChannel>(STORES.channelCache, id)));
+    const now = Date.now();
+    entries.forEach(entry => {
+      if (entry && (allowStale || now - entry.cachedAt < ttlMs)) found.set(entry.id, entry.channel);
+    });
+  } catch (error) {
+    reportUnavailable(error);
+  }
+  return found;
+};
+
+export const cacheChannels = async (channels: ChannelProfile[]): Promise<void> => {
+  const cachedAt = Date.now();
+  try {
+    await putRecords<CachedChannel>(STORES.channelCache, channels.map(channel => ({ id: channel.id, channel, cachedAt })));
+  } catch (error) {
+    reportUnavailable(error);
+  }
+};
+
+// The same video fetched with different language settings is a different transcript
+export const getTranscriptCacheKey = (videoId: string, languages: string[], allLanguages: boolean): string => {
+  const normalized = languages.map(l => l.trim().toLowerCase()).filter(Boolean);
+  return `${videoId}|${normalized.join(',')}|${allLanguages ? 'all' : 'first'}`;
+};
+
+export const getCachedTranscript = async (key: string): Promise<CachedTranscript | undefined> => {
+  try {
+    return await getRecord<CachedTranscript>(STORES.transcriptCache, key);
+  } catch (error) {
+    reportUnavailable(error);
+    return undefined;
+  }
+};
+
+export const cacheTranscript = async (entry: CachedTranscript): Promise<void> => {
+  try {
+    await putRecord(STORES.transcriptCache, entry);
+  } catch (error) {
+    reportUnavailable(error);
+  }
+};
+
+export const clearCache = async (): Promise<void> => {
+  await clearStore(STORES.videoCache);
+  await clearStore(STORES.transcriptCache);
+  await clearStore(STORES.channelCache);
+};
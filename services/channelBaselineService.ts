@@ -0,0 +1,65 @@
+import { VideoData } from '../types';
+import { fetchChannelVideos } from './youtubeService';
+import { median } from './scoringService';
+
+// A channel's baseline is the median views of its recent uploads (one page of the uploads playlist).
+// Uploads younger than a few days are still climbing and would drag the median down.
+const BASELINE_SAMPLE_SIZE = 50;
+const MIN_BASELINE_AGE_DAYS = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ChannelBaseline {
+  medianViews: number;
+  sampleSize: number; // Uploads the median was taken over
+}
+
+// Roughly 3 units per channel: channel lookup, one uploads page, one videos call (cacheable)
+export const estimateChannelBaselineCost = (channelCount: number): number => channelCount * 3;
+
+// Baselines for each channel, fetched one channel at a time. A channel that fails is skipped
+// (its videos simply get no multiplier) rather than failing the whole run.
+export const fetchChannelBaselines = async (
+  channelIds: string[],
+  apiKey: string,
+  onProgress?: (msg: string) => void,
+  signal?: AbortSignal,
+  forceRefresh = false
+): Promise<Record<string, ChannelBaseline>> => {
+  const baselines: Record<string, ChannelBaseline> = {};
+  const now = Date.now();
+
+  for (let i = 0; i < channelIds.length; i++) {
+    const channelId = channelIds[i];
+    try {
+      const uploads = await fetchChannelVideos(channelId, BASELINE_SAMPLE_SIZE, 'any', apiKey, undefined, {
+        strategy: 'uploads',
+        order: 'latest',
+        signal,
+        forceRefresh,
+      });
+      const mature = uploads.filter(video => now - new Date(video.publishedAt).getTime() >= MIN_BASELINE_AGE_DAYS * DAY_MS);
+      if (mature.length === 0) continue;
+      baselines[channelId] = {
+        medianViews: median(mature.map(video => parseInt(video.viewCount) || 0)),
+        sampleSize: mature.length,
+      };
+      if (onProgress) onProgress(`Channel ${i + 1}/${channelIds.length}: ${uploads[0]?.channelTitle || channelId} median ${Math.round(baselines[channelId].medianViews).toLocaleString()} views over ${mature.length} uploads.`);
+    } catch (error: any) {
+      if (signal?.aborted) throw error;
+      if (onProgress) onProgress(`Channel ${i + 1}/${channelIds.length}: baseline unavailable - ${error.message}`);
+    }
+  }
+  return baselines;
+};
+
+// Attach each video's channel median and its multiple of it
+export const applyChannelBaselines = (videos: VideoData[], baselines: Record<string, ChannelBaseline>): VideoData[] =>
+  videos.map(video => {
+    const baseline = video.channelId ? baselines[video.channelId] : undefined;
+    if (!baseline) return video;
+    return {
+      ...video,
+      channelMedianViews: baseline.medianViews,
+      channelOutlierRatio: baseline.medianViews > 0 ? (parseInt(video.viewCount) || 0) / baseline.medianViews : undefined,
+    };
+  });
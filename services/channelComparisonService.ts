@@ -0,0 +1,128 @@
+import { VideoData, ChannelProfile } from '../types';
+import { fetchChannelVideos, isShortVideo, parseDurationToSeconds } from './youtubeService';
+import { median } from './scoringService';
+import { summarizeResultChannels } from './channelProfileService';
+
+export const TOP_VIDEOS_PER_CHANNEL = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One channel's column in the side-by-side comparison
+export interface ChannelComparison {
+  channelId: string;
+  title: string;
+  profile?: ChannelProfile;
+  videoCount: number; // Uploads compared
+  medianViews: number;
+  uploadsPerWeek: number | null; // Null with fewer than two uploads
+  averageDurationSeconds: number;
+  shortsShare: number; // Percent of the compared uploads that are Shorts
+  engagementRate: number | null; // (likes + comments) / views over all compared uploads, percent
+  topVideos: VideoData[]; // Most viewed first
+}
+
+// The latest `perChannel` uploads of each channel, channel by channel in input order.
+// A channel that cannot be crawled is reported and skipped; the rest are still compared.
+export const fetchComparisonVideos = async (
+  channelInputs: string[],
+  perChannel: number,
+  apiKey: string,
+  onProgress?: (msg: string) => void,
+  signal?: AbortSignal,
+  forceRefresh = false
+): Promise<VideoData[]> => {
+  const videos: VideoData[] = [];
+  for (let i = 0; i < channelInputs.length; i++) {
+    const label = `Channel ${i + 1}/${channelInputs.length}`;
+    try {
+      const uploads = await fetchChannelVideos(channelInputs[i], perChannel, 'any', apiKey, onProgress, {
+        strategy: 'uploads',
+        order: 'latest',
+        signal,
+        forceRefresh,
+      });
+      if (onProgress) onProgress(`${label}: ${uploads[0]?.channelTitle || channelInputs[i]} - ${uploads.length} recent uploads.`);
+      videos.push(...uploads);
+    } catch (error: any) {
+      if (signal?.aborted) throw error;
+      if (onProgress) onProgress(`${label}: skipped ${channelInputs[i]} - ${error.message}`);
+    }
+  }
+  return videos;
+};
+
+// Per-channel summary of the given videos, in the order channels first appear
+export const compareChannels = (videos: VideoData[], profiles: Record<string, ChannelProfile> = {}): ChannelComparison[] =>
+  summarizeResultChannels(videos).map(({ channelId }) => {
+    const channelVideos = videos.filter(video => video.channelId === channelId);
+    const views = channelVideos.map(video => parseInt(video.viewCount) || 0);
+    const totalViews = views.reduce((sum, v) => sum + v, 0);
+    const interactions = channelVideos.reduce((sum, video) => sum + (parseInt(video.likeCount || '0') || 0) + (parseInt(video.commentCount || '0') || 0), 0);
+
+    const published = channelVideos.map(video => new Date(video.publishedAt).getTime()).sort((a, b) => a - b);
+    const spanDays = (published[published.length - 1] - published[0]) / DAY_MS;
+
+    return {
+      channelId,
+      title: profiles[channelId]?.title || channelVideos[0].channelTitle,
+      profile: profiles[channelId],
+      videoCount: channelVideos.length,
+      medianViews: median(views),
+      uploadsPerWeek: channelVideos.length > 1 ? (channelVideos.length - 1) / Math.max(spanDays / 7, 1 / 7) : null,
+      averageDurationSeconds: channelVideos.reduce((sum, video) => sum + parseDurationToSeconds(video.duration), 0) / channelVideos.length,
+      shortsShare: (channelVideos.filter(isShortVideo).length / channelVideos.length) * 100,
+      engagementRate: totalViews > 0 ? (interactions / totalViews) * 100 : null,
+      topVideos: [...channelVideos].sort((a, b) => (parseInt(b.viewCount) || 0) - (parseInt(a.viewCount) || 0)).slice(0, TOP_VIDEOS_PER_CHANNEL),
+    };
+  });
+
+// "12:05" or "1:02:09"
+export const formatDuration = (totalSeconds: number): string => {
+  const seconds = Math.round(totalSeconds);
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = (seconds % 60).toString().padStart(2, '0');
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+// "3.5 / week", or "every 12 days" for slower channels
+export const formatCadence = (uploadsPerWeek: number | null): string => {
+  if (uploadsPerWeek === null) return '—';
+  if (uploadsPerWeek >= 1) return `${uploadsPerWeek.toFixed(1)} / week`;
+  return `every ${Math.round(7 / uploadsPerWeek)} days`;
+};
+
+// One row per channel, for the comparison export
+export const buildComparisonCsv = (comparisons: ChannelComparison[]): string => {
+  const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+  const headers = [
+    "Channel",
+    "Channel ID",
+    "Subscribers",
+    "Uploads Compared",
+    "Median Views",
+    "Uploads per Week",
+    "Average Duration (Seconds)",
+    "Shorts (%)",
+    "Long Form (%)",
+    "Engagement Rate (%)",
+    ...Array.from({ length: TOP_VIDEOS_PER_CHANNEL }, (_, i) => [`Top Video ${i + 1}`, `Top Video ${i + 1} Views`, `Top Video ${i + 1} Link`]).flat(),
+  ];
+  const rows = comparisons.map(c => [
+    quote(c.title),
+    c.channelId,
+    c.profile?.subscriberCount || '',
+    c.videoCount,
+    Math.round(c.medianViews),
+    c.uploadsPerWeek?.toFixed(2) ?? '',
+    Math.round(c.averageDurationSeconds),
+    c.shortsShare.toFixed(1),
+    (100 - c.shortsShare).toFixed(1),
+    c.engagementRate?.toFixed(2) ?? '',
+    ...Array.from({ length: TOP_VIDEOS_PER_CHANNEL }, (_, i) => {
+      const video = c.topVideos[i];
+      return video ? [quote(video.title), video.viewCount, video.url] : ['', '', ''];
+    }).flat(),
+  ]);
+  return [headers.join(","), ...rows.map(row => row.join(","))].join("\n");
+};
@@ -0,0 +1,28 @@
+import { VideoData, ChannelProfile } from '../types';
+
+// Attach channel-normalized metrics to each video from its channel's profile.
+// Videos whose channel has no profile are returned unchanged.
+export const applyChannelProfiles = (videos: VideoData[], profiles: Record<string, ChannelProfile>): VideoData[] =>
+  videos.map(video => {
+    const profile = video.channelId ? profiles[video.channelId] : undefined;
+    if (!profile) return video;
+
+    const views = parseInt(video.viewCount) || 0;
+    const subscribers = parseInt(profile.subscriberCount || '') || 0;
+    const channelViews = parseInt(profile.viewCount) || 0;
+    return {
+      ...video,
+      channelSubscriberCount: profile.subscriberCount,
+      viewsPerSubscriber: subscribers > 0 ? views / subscribers : undefined,
+      channelViewShare: channelViews > 0 ? (views / channelViews) * 100 : undefined,
+    };
+  });
+
+// Channels in the order they first appear in the results, with how many of the results each has
+export const summarizeResultChannels = (videos: VideoData[]): { channelId: string; videoCount: number }[] => {
+  const counts = new Map<string, number>();
+  videos.forEach(video => {
+    if (video.channelId) counts.set(video.channelId, (counts.get(video.channelId) || 0) + 1);
+  });
+  return Array.from(counts, ([channelId, videoCount]) => ({ channelId, videoCount }));
+};
@@ -0,0 +1,93 @@
+import { VideoData } from '../types';
+import { parseDurationToSeconds } from './youtubeService';
+import { median } from './scoringService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One plotted video: the numbers every analysis chart draws from
+export interface ChartPoint {
+  video: VideoData;
+  views: number;
+  ageDays: number;
+  durationSeconds: number;
+  likesPerThousand: number; // Likes per 1,000 views
+  commentsPerThousand: number;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface DurationBucket {
+  label: string;
+  count: number;
+  medianViews: number | null;
+}
+
+// Upper bounds in seconds; the last bucket is open-ended
+const DURATION_BUCKETS = [
+  { label: '< 1m', max: 60 },
+  { label: '1-4m', max: 4 * 60 },
+  { label: '4-10m', max: 10 * 60 },
+  { label: '10-20m', max: 20 * 60 },
+  { label: '20-40m', max: 40 * 60 },
+  { label: '40m+', max: Infinity },
+];
+
+export const toChartPoints = (videos: VideoData[], now: number = Date.now()): ChartPoint[] =>
+  videos.map(video => {
+    const views = parseInt(video.viewCount) || 0;
+    return {
+      video,
+      views,
+      ageDays: Math.max(1 / 24, (now - new Date(video.publishedAt).getTime()) / DAY_MS),
+      durationSeconds: parseDurationToSeconds(video.duration),
+      likesPerThousand: views > 0 ? ((parseInt(video.likeCount || '0') || 0) / views) * 1000 : 0,
+      commentsPerThousand: views > 0 ? ((parseInt(video.commentCount || '0') || 0) / views) * 1000 : 0,
+    };
+  });
+
+// Map [domainMin, domainMax] to [rangeMin, rangeMax], on a log10 scale when `log` is set
+export const createScale = (domainMin: number, domainMax: number, rangeMin: number, rangeMax: number, log = false) => {
+  const transform = (value: number) => log ? Math.log10(Math.max(value, 1e-9)) : value;
+  const d0 = transform(domainMin);
+  const d1 = transform(domainMax);
+  const span = d1 - d0 || 1;
+  return (value: number) => rangeMin + ((transform(value) - d0) / span) * (rangeMax - rangeMin);
+};
+
+// Powers of ten covering [min, max], for log axes
+export const getLogTicks = (min: number, max: number): number[] => {
+  const ticks: number[] = [];
+  for (let exp = Math.floor(Math.log10(Math.max(min, 1e-9))); exp <= Math.ceil(Math.log10(Math.max(max, 1e-9))); exp++) {
+    ticks.push(Math.pow(10, exp));
+  }
+  return ticks;
+};
+
+// Virality scores are heavily skewed, so bins are equal widths of log10(score)
+export const buildViralityHistogram = (videos: VideoData[], binCount = 12): HistogramBin[] => {
+  const logs = videos
+    .map(video => video.viralityScore)
+    .filter((score): score is number => score !== undefined && score > 0)
+    .map(score => Math.log10(score));
+  if (logs.length === 0) return [];
+
+  const min = Math.min(...logs);
+  const max = Math.max(...logs);
+  const width = (max - min) / binCount || 1;
+  const counts = new Array<number>(binCount).fill(0);
+  logs.forEach(value => {
+    counts[Math.min(binCount - 1, Math.floor((value - min) / width))]++;
+  });
+  return counts.map((count, i) => ({ from: Math.pow(10, min + i * width), to: Math.pow(10, min + (i + 1) * width), count }));
+};
+
+export const buildDurationBuckets = (points: ChartPoint[]): DurationBucket[] =>
+  DURATION_BUCKETS.map((bucket, i) => {
+    const min = i === 0 ? 0 : DURATION_BUCKETS[i - 1].max;
+    const views = points.filter(p => p.durationSeconds >= min && p.durationSeconds < bucket.max).map(p => p.views);
+    return { label: bucket.label, count: views.length, medianViews: views.length > 0 ? median(views) : null };
+  });
@@ -0,0 +1,103 @@
+// Run `worker` over every item with at most `limit` calls in flight. Resolves once all items are done.
+// Items are started in order; results land as each one finishes.
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>
+): Promise<void> => {
+  let nextIndex = 0;
+  const workerCount = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+
+  const runWorker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+};
+
+// Sleep for `ms`, rejecting with the signal's AbortError as soon as it is aborted
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// A caller sleeping until its slot (epoch ms) to send a request
+interface RateLimitWaiter {
+  slot: number;
+  schedule: () => void; // (Re)arms the timer for `slot`
+}
+
+// Per rate-limit key: when the next request may go after the last one sent, and the waiters in slot order
+interface RateLimitState {
+  afterSent: number;
+  queue: RateLimitWaiter[];
+}
+const rateLimits = new Map<string, RateLimitState>();
+
+// Helper: Pull waiters from `fromIndex` on forward after one ahead of them left the queue
+const compactQueue = (state: RateLimitState, fromIndex: number, intervalMs: number) => {
+  for (let i = fromIndex; i < state.queue.length; i++) {
+    const earliest = i === 0 ? state.afterSent : state.queue[i - 1].slot + intervalMs;
+    const slot = Math.max(Date.now(), earliest);
+    if (slot >= state.queue[i].slot) break;
+    state.queue[i].slot = slot;
+    state.queue[i].schedule();
+  }
+};
+
+// Wait until `key` may send another request, spacing requests at least `intervalMs` apart
+// no matter how many workers are asking. Slots are handed out in call order.
+// An aborted wait gives its slot back: the waiters behind it move up, so cancelled requests
+// do not delay the ones after them.
+export const waitForRateLimit = async (key: string, intervalMs: number, signal?: AbortSignal): Promise<void> => {
+  signal?.throwIfAborted();
+  if (intervalMs <= 0) return;
+  const state = rateLimits.get(key) || { afterSent: 0, queue: [] };
+  rateLimits.set(key, state);
+
+  const now = Date.now();
+  const nextFree = state.queue.length > 0 ? state.queue[state.queue.length - 1].slot + intervalMs : state.afterSent;
+  if (nextFree <= now) {
+    state.afterSent = now + intervalMs;
+    return;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const waiter: RateLimitWaiter = {
+      slot: nextFree,
+      schedule: () => {
+        clearTimeout(timer);
+        timer = setTimeout(onReady, Math.max(0, waiter.slot - Date.now()));
+      },
+    };
+    const onReady = () => {
+      signal?.removeEventListener('abort', onAbort);
+      state.queue.splice(state.queue.indexOf(waiter), 1);
+      state.afterSent = Math.max(state.afterSent, waiter.slot + intervalMs);
+      resolve();
+    };
+    const onAbort = () => {
+      clearTimeout(timer);
+      const index = state.queue.indexOf(waiter);
+      state.queue.splice(index, 1);
+      compactQueue(state, index, intervalMs);
+      reject(signal!.reason);
+    };
+    state.queue.push(waiter);
+    waiter.schedule();
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
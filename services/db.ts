@@ -0,0 +1,105 @@
+// Shared IndexedDB database for everything the app keeps beyond localStorage's size limits.
+// Bump DB_VERSION and add a step to `upgrade` whenever a store or index is added.
+const DB_NAME = 'youtube-toolkit';
+const DB_VERSION = 4;
+
+export const STORES = {
+  runs: 'runs',
+  videoCache: 'videoCache',
+  transcriptCache: 'transcriptCache',
+  snapshots: 'snapshots',
+  watchlist: 'watchlist',
+  channelCache: 'channelCache',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// Each step runs once, in order, for databases created by an older version
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    const runs = db.createObjectStore(STORES.runs, { keyPath: 'id' });
+    runs.createIndex('createdAt', 'createdAt');
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.videoCache, { keyPath: 'id' });
+    const transcripts = db.createObjectStore(STORES.transcriptCache, { keyPath: 'key' });
+    transcripts.createIndex('videoId', 'videoId');
+  }
+  if (oldVersion < 3) {
+    const snapshots = db.createObjectStore(STORES.snapshots, { keyPath: 'id' });
+    snapshots.createIndex('videoId', 'videoId');
+    snapshots.createIndex('channelId', 'channelId');
+    db.createObjectStore(STORES.watchlist, { keyPath: 'id' });
+  }
+  if (oldVersion < 4) {
+    db.createObjectStore(STORES.channelCache, { keyPath: 'id' });
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null; // Allow a later call to try again
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Helper: Run one request in its own transaction and resolve with its result
+const runRequest = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = createRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const getRecord = <T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> =>
+  runRequest<T | undefined>(storeName, 'readonly', store => store.get(key));
+
+export const getAllRecords = <T>(storeName: StoreName): Promise<T[]> =>
+  runRequest<T[]>(storeName, 'readonly', store => store.getAll());
+
+export const putRecord = async <T>(storeName: StoreName, value: T): Promise<void> => {
+  await runRequest(storeName, 'readwrite', store => store.put(value));
+};
+
+export const getRecordsByIndex = <T>(storeName: StoreName, indexName: string, value: IDBValidKey): Promise<T[]> =>
+  runRequest<T[]>(storeName, 'readonly', store => store.index(indexName).getAll(value));
+
+// Writes every value in one transaction
+export const putRecords = async <T>(storeName: StoreName, values: T[]): Promise<void> => {
+  if (values.length === 0) return;
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    values.forEach(value => store.put(value));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const clearStore = async (storeName: StoreName): Promise<void> => {
+  await runRequest(storeName, 'readwrite', store => store.clear());
+};
+
+export const deleteRecord = async (storeName: StoreName, key: IDBValidKey): Promise<void> => {
+  await runRequest(storeName, 'readwrite', store => store.delete(key));
+};
@@ -1,3 +1,5 @@
+import { fetchWithRetry } from './httpClient';
+
 export interface Voice {
   voice_id: string;
   name: string;
@@ -23,11 +25,11 @@ export interface VoiceSettings {
 const API_BASE = 'https://api.elevenlabs.io/v1';
 
 export const fetchVoices = async (apiKey: string): Promise<Voice[]> => {
-  const response = await fetch(`${API_BASE}/voices`, {
+  const response = await fetchWithRetry(`${API_BASE}/voices`, {
     headers: {
       'xi-api-key': apiKey,
     },
-  });
+  }, { label: 'ElevenLabs voices' });
 
   if (!response.ok) {
     const err = await response.json();
@@ -39,11 +41,11 @@ export const fetchVoices = async (apiKey: string): Promise<Voice[]> => {
 };
 
 export const fetchModels = async (apiKey: string): Promise<Model[]> => {
-  const response = await fetch(`${API_BASE}/models`, {
+  const response = await fetchWithRetry(`${API_BASE}/models`, {
     headers: {
       'xi-api-key': apiKey,
     },
-  });
+  }, { label: 'ElevenLabs models' });
 
   if (!response.ok) {
     // Fallback models if API fails or key is invalid initially
@@ -63,9 +65,10 @@ export const generateAudio = async (
   voiceId: string,
   apiKey: string,
   modelId: string,
-  settings: VoiceSettings
+  settings: VoiceSettings,
+  signal?: AbortSignal
 ): Promise<Blob> => {
-  const response = await fetch(`${API_BASE}/text-to-speech/${voiceId}`, {
+  const response = await fetchWithRetry(`${API_BASE}/text-to-speech/${voiceId}`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -81,7 +84,8 @@ export const generateAudio = async (
         use_speaker_boost: settings.use_speaker_boost
       },
     }),
-  });
+    signal,
+  }, { label: 'ElevenLabs speech' });
 
   if (!response.ok) {
     const err = await response.json();
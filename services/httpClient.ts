@@ -0,0 +1,90 @@
+import { delay } from './concurrency';
+
+// Transient statuses worth another attempt. Everything else is returned to the caller as-is.
+const RETRYABLE_STATUSES = [429, 500, 502, 503];
+
+const RETRY_LIMIT_STORAGE_KEY = 'http_retry_limit';
+export const DEFAULT_RETRY_LIMIT = 3;
+export const MAX_RETRY_LIMIT = 10;
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+// Cap on a server-provided Retry-After, so one header cannot stall a run for minutes
+const MAX_RETRY_AFTER_MS = 60000;
+
+export interface RetryOptions {
+  label: string; // Shown in retry events, e.g. "YouTube videos" or "Supadata"
+  retries?: number; // Defaults to the stored retry limit
+  onAttempt?: (attempt: number) => void; // Called before every attempt, including the first
+}
+
+export interface RetryEvent {
+  label: string;
+  attempt: number; // 1-based number of the retry about to happen
+  maxRetries: number;
+  reason: string; // "HTTP 503" or the network error message
+  delayMs: number;
+}
+
+type RetryListener = (event: RetryEvent) => void;
+const listeners = new Set<RetryListener>();
+
+export const getRetryLimit = (): number => {
+  const stored = parseInt(localStorage.getItem(RETRY_LIMIT_STORAGE_KEY) || '');
+  return isNaN(stored) ? DEFAULT_RETRY_LIMIT : Math.min(MAX_RETRY_LIMIT, Math.max(0, stored));
+};
+
+export const setRetryLimit = (retries: number) => {
+  localStorage.setItem(RETRY_LIMIT_STORAGE_KEY, Math.min(MAX_RETRY_LIMIT, Math.max(0, retries)).toString());
+};
+
+export const subscribeToRetries = (listener: RetryListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Helper: Exponential backoff with jitter. Half the window is fixed, half random, so
+// concurrent workers that failed together do not all come back at the same moment.
+const getBackoffDelay = (attempt: number): number => {
+  const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+};
+
+// Helper: Retry-After is either delta-seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | null => {
+  if (!header) return null;
+  const seconds = Number(header);
+  const ms = !isNaN(seconds) ? seconds * 1000 : Date.parse(header) - Date.now();
+  if (isNaN(ms)) return null;
+  return Math.min(MAX_RETRY_AFTER_MS, Math.max(0, ms));
+};
+
+// fetch() with retries for transient failures (429, 5xx listed above, network errors).
+// Resolves with the last response once retries run out, so callers keep their own status handling.
+// Aborting `init.signal` stops immediately, including during a backoff wait.
+export const fetchWithRetry = async (url: string, init: RequestInit, options: RetryOptions): Promise<Response> => {
+  const maxRetries = options.retries ?? getRetryLimit();
+  const signal = init.signal || undefined;
+
+  for (let attempt = 0; ; attempt++) {
+    options.onAttempt?.(attempt);
+
+    let response: Response | null = null;
+    let reason: string;
+    try {
+      response = await fetch(url, init);
+      if (!RETRYABLE_STATUSES.includes(response.status) || attempt >= maxRetries) return response;
+      reason = `HTTP ${response.status}`;
+    } catch (error: any) {
+      if (signal?.aborted || attempt >= maxRetries) throw error;
+      reason = error.message || 'Network error';
+    }
+
+    const delayMs = parseRetryAfter(response?.headers.get('Retry-After') ?? null) ?? getBackoffDelay(attempt);
+    const event: RetryEvent = { label: options.label, attempt: attempt + 1, maxRetries, reason, delayMs };
+    listeners.forEach(listener => listener(event));
+    await delay(delayMs, signal);
+  }
+};
@@ -0,0 +1,71 @@
+import { VideoData } from '../types';
+
+export type KeywordSource = 'tag' | 'title';
+
+// One tag or title word, aggregated over the videos that use it
+export interface KeywordStat {
+  term: string; // Lowercased
+  source: KeywordSource;
+  count: number; // Videos using it
+  averageVirality: number | null; // Mean viralityScore of those videos; null when none is scored
+  videoIds: string[];
+}
+
+export type KeywordSort = 'frequency' | 'virality';
+
+// Common English words that say nothing about a video's topic
+const STOPWORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'before', 'being',
+  'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing', 'don', 'down', 'each', 'even', 'ever', 'every', 'for',
+  'from', 'get', 'got', 'had', 'has', 'have', 'he', 'her', 'here', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it',
+  'its', 'just', 'let', 'like', 'll', 'me', 'more', 'most', 'my', 'new', 'no', 'not', 'now', 'of', 'off', 'on', 'one',
+  'only', 'or', 'our', 'out', 'over', 're', 's', 'she', 'should', 'so', 'some', 'than', 'that', 'the', 'their', 'them',
+  'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to', 'too', 'up', 'us', 've', 'very', 'vs', 'was',
+  'way', 'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+]);
+
+// Helper: Distinct meaningful words of a title. Numbers and stopwords are dropped.
+const tokenizeTitle = (title: string): string[] => {
+  const words = title.toLowerCase().split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length > 1 && !STOPWORDS.has(word) && !/^\d+$/.test(word));
+  return Array.from(new Set(words));
+};
+
+// Helper: Distinct normalized tags of a video
+const normalizeTags = (tags: string[] = []): string[] =>
+  Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+
+export const getVideoKeywords = (video: VideoData, source: KeywordSource): string[] =>
+  source === 'tag' ? normalizeTags(video.tags) : tokenizeTitle(video.title);
+
+// Every tag or title word in the set with its frequency and average virality
+export const aggregateKeywords = (videos: VideoData[], source: KeywordSource): KeywordStat[] => {
+  const byTerm = new Map<string, { videoIds: string[]; scores: number[] }>();
+  videos.forEach(video => {
+    getVideoKeywords(video, source).forEach(term => {
+      const entry = byTerm.get(term) || { videoIds: [], scores: [] };
+      entry.videoIds.push(video.id);
+      if (video.viralityScore !== undefined) entry.scores.push(video.viralityScore);
+      byTerm.set(term, entry);
+    });
+  });
+
+  return Array.from(byTerm, ([term, { videoIds, scores }]) => ({
+    term,
+    source,
+    count: videoIds.length,
+    averageVirality: scores.length > 0 ? scores.reduce((sum, s) => sum + s, 0) / scores.length : null,
+    videoIds,
+  }));
+};
+
+// Ranked best first. By virality, terms used by fewer than `minCount` videos are left out:
+// a single viral video would otherwise put every one of its words on top.
+export const rankKeywords = (stats: KeywordStat[], sort: KeywordSort, minCount = 2): KeywordStat[] => {
+  if (sort === 'frequency') {
+    return [...stats].sort((a, b) => b.count - a.count || (b.averageVirality ?? 0) - (a.averageVirality ?? 0));
+  }
+  return stats
+    .filter(stat => stat.count >= minCount && stat.averageVirality !== null)
+    .sort((a, b) => (b.averageVirality ?? 0) - (a.averageVirality ?? 0) || b.count - a.count);
+};
@@ -0,0 +1,85 @@
+// YouTube Data API v3 unit costs per request.
+// See https://developers.google.com/youtube/v3/determine_quota_cost
+export const YOUTUBE_QUOTA_COSTS: Record<string, number> = {
+  search: 100,
+  videos: 1,
+  channels: 1,
+  playlists: 1,
+  playlistItems: 1,
+};
+
+// Default daily allocation for a new Google Cloud project
+export const DEFAULT_DAILY_QUOTA = 10000;
+
+const LEDGER_STORAGE_KEY = 'youtube_quota_ledger';
+
+export interface QuotaLedgerEntry {
+  calls: number;
+  units: number;
+}
+
+export interface QuotaLedger {
+  day: string; // YYYY-MM-DD in Pacific time, the day Google's quota window belongs to
+  used: number;
+  endpoints: Record<string, QuotaLedgerEntry>;
+}
+
+type LedgerListener = (ledger: QuotaLedger) => void;
+const listeners = new Set<LedgerListener>();
+
+// Helper: Current quota day. Google resets the YouTube quota at midnight Pacific time.
+const getPacificDay = (date: Date = new Date()): string => {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: 'America/Los_Angeles',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date);
+};
+
+const createEmptyLedger = (): QuotaLedger => ({ day: getPacificDay(), used: 0, endpoints: {} });
+
+export const getQuotaCost = (endpoint: string): number => YOUTUBE_QUOTA_COSTS[endpoint] ?? 1;
+
+// Read the ledger, starting a fresh one when the stored ledger belongs to a previous quota day
+export const getQuotaLedger = (): QuotaLedger => {
+  try {
+    const stored = localStorage.getItem(LEDGER_STORAGE_KEY);
+    if (stored) {
+      const ledger = JSON.parse(stored) as QuotaLedger;
+      if (ledger.day === getPacificDay()) return ledger;
+    }
+  } catch (e) {
+    // Corrupt ledger: fall through and start over
+  }
+  return createEmptyLedger();
+};
+
+const saveLedger = (ledger: QuotaLedger) => {
+  localStorage.setItem(LEDGER_STORAGE_KEY, JSON.stringify(ledger));
+  listeners.forEach(listener => listener(ledger));
+};
+
+// Charge one request to the ledger. Returns the units spent.
+export const recordQuotaUsage = (endpoint: string): number => {
+  const cost = getQuotaCost(endpoint);
+  const ledger = getQuotaLedger();
+  const entry = ledger.endpoints[endpoint] || { calls: 0, units: 0 };
+
+  saveLedger({
+    ...ledger,
+    used: ledger.used + cost,
+    endpoints: { ...ledger.endpoints, [endpoint]: { calls: entry.calls + 1, units: entry.units + cost } },
+  });
+  return cost;
+};
+
+export const resetQuotaLedger = () => saveLedger(createEmptyLedger());
+
+export const subscribeToQuotaLedger = (listener: LedgerListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,85 @@
+import { SavedRun } from '../types';
+import { STORES, getAllRecords, getRecord, putRecord, deleteRecord } from './db';
+
+// Runs are written while they progress; coalesce bursts of per-video updates into one write
+const SAVE_DELAY_MS = 500;
+const pendingSaves = new Map<string, { run: SavedRun; timer: ReturnType<typeof setTimeout> }>();
+
+// A background save that failed. Reported once per run until one of its saves succeeds again.
+export interface RunSaveErrorEvent {
+  runId: string;
+  message: string;
+}
+
+type RunSaveErrorListener = (event: RunSaveErrorEvent) => void;
+const saveErrorListeners = new Set<RunSaveErrorListener>();
+const failingRuns = new Set<string>();
+
+export const subscribeToRunSaveErrors = (listener: RunSaveErrorListener): (() => void) => {
+  saveErrorListeners.add(listener);
+  return () => {
+    saveErrorListeners.delete(listener);
+  };
+};
+
+export const createRunId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const saveRun = async (run: SavedRun): Promise<void> => {
+  const pending = pendingSaves.get(run.id);
+  if (pending) {
+    clearTimeout(pending.timer);
+    pendingSaves.delete(run.id);
+  }
+  await putRecord(STORES.runs, run);
+};
+
+// Debounced saveRun: only the latest snapshot of a run is written
+export const queueRunSave = (run: SavedRun) => {
+  const pending = pendingSaves.get(run.id);
+  if (pending) clearTimeout(pending.timer);
+  const timer = setTimeout(() => {
+    pendingSaves.delete(run.id);
+    putRecord(STORES.runs, run)
+      .then(() => failingRuns.delete(run.id))
+      .catch(error => {
+        if (failingRuns.has(run.id)) return;
+        failingRuns.add(run.id);
+        const event: RunSaveErrorEvent = { runId: run.id, message: error?.message || String(error) };
+        saveErrorListeners.forEach(listener => listener(event));
+      });
+  }, SAVE_DELAY_MS);
+  pendingSaves.set(run.id, { run, timer });
+};
+
+// Helper: Bring runs saved by older versions up to date. The video-list mode used to be called 'multi-channel'.
+const migrateRun = (run: SavedRun): SavedRun =>
+  (run.settings.mode as string) === 'multi-channel' ? { ...run, settings: { ...run.settings, mode: 'batch-videos' } } : run;
+
+export const getRun = async (id: string): Promise<SavedRun | undefined> => {
+  const run = await getRecord<SavedRun>(STORES.runs, id);
+  return run && migrateRun(run);
+};
+
+// Newest first
+export const listRuns = async (): Promise<SavedRun[]> => {
+  const runs = await getAllRecords<SavedRun>(STORES.runs);
+  return runs.map(migrateRun).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const deleteRun = async (id: string): Promise<void> => {
+  const pending = pendingSaves.get(id);
+  if (pending) {
+    clearTimeout(pending.timer);
+    pendingSaves.delete(id);
+  }
+  await deleteRecord(STORES.runs, id);
+};
+
+// Videos a resumed run still has to fetch: pending, failed or cancelled. Videos without captions are final.
+export const getResumableVideoIds = (run: SavedRun): string[] => {
+  if (run.toolType !== 'transcript') return [];
+  return run.videos
+    .filter(video => video.transcriptStatus?.state !== 'success' && video.transcriptStatus?.state !== 'unavailable')
+    .map(video => video.id);
+};
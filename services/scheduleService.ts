@@ -0,0 +1,105 @@
+import { VideoData } from '../types';
+import { median } from './scoringService';
+
+const TIMEZONE_STORAGE_KEY = 'schedule_timezone';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rows of the heatmap, Monday first
+export const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export interface HeatmapCell {
+  count: number; // Uploads in this slot
+  medianPerformance: number | null; // Null when none of them is scored
+}
+
+// One upload and the time since the channel's previous one
+export interface UploadGap {
+  videoId: string;
+  title: string;
+  publishedAt: string;
+  gapDays: number | null; // Null for the oldest upload
+}
+
+export const getBrowserTimezone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const getTimezoneOptions = (): string[] => {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  return Array.from(new Set(['UTC', getBrowserTimezone(), ...zones]));
+};
+
+// Falls back to the browser's timezone when nothing (or an unknown zone) is stored
+export const getStoredTimezone = (): string => {
+  const stored = localStorage.getItem(TIMEZONE_STORAGE_KEY);
+  if (!stored) return getBrowserTimezone();
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: stored });
+    return stored;
+  } catch (e) {
+    return getBrowserTimezone();
+  }
+};
+
+export const setStoredTimezone = (timeZone: string) => {
+  localStorage.setItem(TIMEZONE_STORAGE_KEY, timeZone);
+};
+
+// Helper: Weekday (0 = Monday) and hour a timestamp falls on in `timeZone`
+const getSlot = (publishedAt: string, formatter: Intl.DateTimeFormat): { day: number; hour: number } => {
+  const parts = formatter.formatToParts(new Date(publishedAt));
+  const weekday = parts.find(part => part.type === 'weekday')?.value || 'Mon';
+  const hour = parseInt(parts.find(part => part.type === 'hour')?.value || '0') % 24;
+  return { day: Math.max(0, WEEKDAYS.indexOf(weekday)), hour };
+};
+
+// 7 x 24 grid (weekday by hour) of uploads and their median `performance`
+export const buildPublishHeatmap = (
+  videos: VideoData[],
+  timeZone: string,
+  performance: (video: VideoData) => number | undefined
+): HeatmapCell[][] => {
+  const formatter = new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'short', hour: 'numeric', hourCycle: 'h23' });
+  const values = WEEKDAYS.map(() => Array.from({ length: 24 }, (): number[] => []));
+  const counts = WEEKDAYS.map(() => new Array<number>(24).fill(0));
+
+  videos.forEach(video => {
+    const { day, hour } = getSlot(video.publishedAt, formatter);
+    counts[day][hour]++;
+    const value = performance(video);
+    if (value !== undefined) values[day][hour].push(value);
+  });
+
+  return counts.map((row, day) => row.map((count, hour) => ({
+    count,
+    medianPerformance: values[day][hour].length > 0 ? median(values[day][hour]) : null,
+  })));
+};
+
+// Uploads of each channel in publishing order, with the gap since the previous upload
+export const getUploadGaps = (videos: VideoData[]): Record<string, UploadGap[]> => {
+  const byChannel: Record<string, VideoData[]> = {};
+  videos.forEach(video => {
+    const key = video.channelId || video.channelTitle;
+    (byChannel[key] = byChannel[key] || []).push(video);
+  });
+
+  return Object.fromEntries(Object.entries(byChannel).map(([channel, channelVideos]) => {
+    const sorted = [...channelVideos].sort((a, b) => new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime());
+    return [channel, sorted.map((video, i) => ({
+      videoId: video.id,
+      title: video.title,
+      publishedAt: video.publishedAt,
+      gapDays: i === 0 ? null : (new Date(video.publishedAt).getTime() - new Date(sorted[i - 1].publishedAt).getTime()) / DAY_MS,
+    }))];
+  }));
+};
+
+// Median, mean and longest gap in days; null with fewer than two uploads
+export const summarizeUploadGaps = (gaps: UploadGap[]): { median: number; mean: number; longest: number } | null => {
+  const days = gaps.map(gap => gap.gapDays).filter((d): d is number => d !== null);
+  if (days.length === 0) return null;
+  return {
+    median: median(days),
+    mean: days.reduce((sum, d) => sum + d, 0) / days.length,
+    longest: Math.max(...days),
+  };
+};
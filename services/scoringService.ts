@@ -0,0 +1,207 @@
+import { VideoData } from '../types';
+
+// Named models the analysis tool can rank by. Every model scores the whole set at once,
+// because some (channel-relative) need the other videos to score one.
+export type ScoringModelId = 'virality' | 'engagement' | 'views-per-subscriber' | 'log-velocity' | 'channel-outlier';
+
+export interface ScoringWeight {
+  key: string;
+  label: string;
+  defaultValue: number;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export type ScoringWeights = Record<string, number>;
+
+export interface ScoringModel {
+  id: ScoringModelId;
+  name: string;
+  description: string;
+  suffix?: string; // Unit shown after the score, e.g. "%" or "x"
+  decimals: number;
+  weights: ScoringWeight[];
+  // One score per video, in input order. Null when the video lacks the data the model needs.
+  score: (videos: VideoData[], weights: ScoringWeights, now: number) => (number | null)[];
+}
+
+const SCORING_MODEL_STORAGE_KEY = 'scoring_model';
+const SCORING_WEIGHTS_STORAGE_KEY = 'scoring_weights';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Helper: Parsed public counters and age of a video
+const getStats = (video: VideoData, now: number) => ({
+  views: parseInt(video.viewCount) || 0,
+  likes: parseInt(video.likeCount || '0') || 0,
+  comments: parseInt(video.commentCount || '0') || 0,
+  hoursAge: Math.max(1, (now - new Date(video.publishedAt).getTime()) / HOUR_MS),
+});
+
+export const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export const SCORING_MODELS: ScoringModel[] = [
+  {
+    id: 'virality',
+    name: 'Virality',
+    description: 'Views plus weighted likes and comments, per hour since publishing.',
+    decimals: 0,
+    weights: [
+      { key: 'likeWeight', label: 'Like weight', defaultValue: 5, min: 0, max: 100, step: 1 },
+      { key: 'commentWeight', label: 'Comment weight', defaultValue: 10, min: 0, max: 100, step: 1 },
+    ],
+    score: (videos, w, now) => videos.map(video => {
+      const { views, likes, comments, hoursAge } = getStats(video, now);
+      return (views + likes * w.likeWeight + comments * w.commentWeight) / hoursAge;
+    }),
+  },
+  {
+    id: 'engagement',
+    name: 'Engagement Rate',
+    description: 'Weighted likes and comments as a percentage of views.',
+    suffix: '%',
+    decimals: 2,
+    weights: [
+      { key: 'likeWeight', label: 'Like weight', defaultValue: 1, min: 0, max: 100, step: 0.5 },
+      { key: 'commentWeight', label: 'Comment weight', defaultValue: 1, min: 0, max: 100, step: 0.5 },
+    ],
+    score: (videos, w, now) => videos.map(video => {
+      const { views, likes, comments } = getStats(video, now);
+      return views > 0 ? ((likes * w.likeWeight + comments * w.commentWeight) / views) * 100 : null;
+    }),
+  },
+  {
+    id: 'views-per-subscriber',
+    name: 'Views per Subscriber',
+    description: 'Views relative to the channel\'s audience size. Channels that hide subscribers get no score.',
+    suffix: 'x',
+    decimals: 2,
+    weights: [
+      { key: 'subscriberExponent', label: 'Subscriber exponent', defaultValue: 1, min: 0, max: 2, step: 0.1 },
+    ],
+    score: (videos, w, now) => videos.map(video => {
+      const subscribers = parseInt(video.channelSubscriberCount || '');
+      if (!subscribers) return null;
+      return getStats(video, now).views / Math.pow(subscribers, w.subscriberExponent);
+    }),
+  },
+  {
+    id: 'log-velocity',
+    name: 'Log Velocity',
+    description: 'log10 of views per hour. Compresses the range so mid-size videos are not drowned out by hits.',
+    decimals: 2,
+    weights: [
+      { key: 'ageExponent', label: 'Age exponent', defaultValue: 1, min: 0, max: 2, step: 0.1 },
+    ],
+    score: (videos, w, now) => videos.map(video => {
+      const { views, hoursAge } = getStats(video, now);
+      return Math.log10(1 + views / Math.pow(hoursAge, w.ageExponent));
+    }),
+  },
+  {
+    id: 'channel-outlier',
+    name: 'Channel Outlier',
+    description: 'Views as a multiple of the channel\'s recent median. Without fetched channel baselines, the median of the channel\'s videos in this result set is used.',
+    suffix: 'x',
+    decimals: 2,
+    weights: [
+      { key: 'minVideos', label: 'Min. videos (in-set)', defaultValue: 3, min: 1, max: 50, step: 1 },
+    ],
+    score: (videos, w, now) => {
+      const views = videos.map(video => getStats(video, now).views);
+      const byChannel = new Map<string, number[]>();
+      videos.forEach((video, i) => {
+        const key = video.channelId || video.channelTitle;
+        byChannel.set(key, [...(byChannel.get(key) || []), views[i]]);
+      });
+      return videos.map((video, i) => {
+        if (video.channelOutlierRatio !== undefined) return video.channelOutlierRatio;
+        const channelViews = byChannel.get(video.channelId || video.channelTitle) || [];
+        if (channelViews.length < w.minVideos) return null;
+        const baseline = median(channelViews);
+        return baseline > 0 ? views[i] / baseline : null;
+      });
+    },
+  },
+];
+
+export const DEFAULT_SCORING_MODEL: ScoringModelId = 'virality';
+
+export const getScoringModel = (id: string): ScoringModel =>
+  SCORING_MODELS.find(model => model.id === id) || SCORING_MODELS[0];
+
+export const getDefaultWeights = (model: ScoringModel): ScoringWeights =>
+  Object.fromEntries(model.weights.map(weight => [weight.key, weight.defaultValue]));
+
+// Stored weights win; keys the model does not define (or that are missing) fall back to defaults
+export const resolveWeights = (model: ScoringModel, weights?: ScoringWeights): ScoringWeights =>
+  Object.fromEntries(model.weights.map(weight => {
+    const value = weights?.[weight.key];
+    return [weight.key, typeof value === 'number' && !isNaN(value) ? Math.min(weight.max, Math.max(weight.min, value)) : weight.defaultValue];
+  }));
+
+export const getStoredScoringModel = (): ScoringModelId =>
+  getScoringModel(localStorage.getItem(SCORING_MODEL_STORAGE_KEY) || DEFAULT_SCORING_MODEL).id;
+
+export const setStoredScoringModel = (id: ScoringModelId) => {
+  localStorage.setItem(SCORING_MODEL_STORAGE_KEY, id);
+};
+
+// Weights per model, so switching models does not lose adjustments
+export const getStoredScoringWeights = (): Partial<Record<ScoringModelId, ScoringWeights>> => {
+  try {
+    return JSON.parse(localStorage.getItem(SCORING_WEIGHTS_STORAGE_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+export const setStoredScoringWeights = (weights: Partial<Record<ScoringModelId, ScoringWeights>>) => {
+  localStorage.setItem(SCORING_WEIGHTS_STORAGE_KEY, JSON.stringify(weights));
+};
+
+// "likeWeight=5; commentWeight=10", for exports
+export const describeWeights = (model: ScoringModel, weights: ScoringWeights): string =>
+  model.weights.map(weight => `${weight.key}=${weights[weight.key]}`).join('; ');
+
+export const formatScore = (model: ScoringModel, score?: number | null): string =>
+  score === undefined || score === null ? '—' : `${score.toFixed(model.decimals)}${model.suffix || ''}`;
+
+// Fill `score` and `rank` from the chosen model, plus `viralityScore` and `engagementRate` from
+// their own models. Sorted best first unless `keepOrder` (playlists keep their sequence).
+// Videos the model cannot score rank last.
+export const applyScoring = (
+  videos: VideoData[],
+  modelId: ScoringModelId,
+  weightsByModel: Partial<Record<ScoringModelId, ScoringWeights>> = {},
+  keepOrder = false,
+  now: number = Date.now()
+): VideoData[] => {
+  const runModel = (id: ScoringModelId) => {
+    const model = getScoringModel(id);
+    return model.score(videos, resolveWeights(model, weightsByModel[id]), now);
+  };
+  const scores = runModel(modelId);
+  const viralityScores = runModel('virality');
+  const engagementRates = runModel('engagement');
+
+  const scored = videos.map((video, i) => ({
+    ...video,
+    score: scores[i] ?? undefined,
+    viralityScore: viralityScores[i] ?? undefined,
+    engagementRate: engagementRates[i] ?? undefined,
+  }));
+
+  const ranking = [...scored].sort((a, b) => {
+    if (a.score === undefined || b.score === undefined) return a.score === undefined ? (b.score === undefined ? 0 : 1) : -1;
+    return b.score - a.score;
+  });
+  const ranks = new Map(ranking.map((video, i) => [video.id, i + 1]));
+  const ranked = scored.map(video => ({ ...video, rank: ranks.get(video.id) }));
+  return keepOrder ? ranked : ranked.sort((a, b) => (a.rank || 0) - (b.rank || 0));
+};
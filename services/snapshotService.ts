@@ -0,0 +1,163 @@
+import { VideoData, StatsSnapshot, WatchlistEntry } from '../types';
+import { STORES, getAllRecords, getRecordsByIndex, putRecord, putRecords, deleteRecord } from './db';
+import { getVideoDetails, fetchChannelVideos, resolveChannel } from './youtubeService';
+
+// How often the watchlist is re-snapshotted while the tab is open. 0 = only on demand.
+const REFRESH_INTERVAL_STORAGE_KEY = 'watchlist_refresh_minutes';
+export const WATCHLIST_INTERVAL_OPTIONS = [0, 15, 60, 360];
+
+// A watched channel is tracked through its most recent uploads (one page of the uploads playlist)
+const CHANNEL_SNAPSHOT_LIMIT = 50;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface ViewGrowth {
+  gained: number;
+  hours: number; // Span actually covered; shorter than the window when tracking started recently, longer when snapshots are sparse
+}
+
+// How far the covered span may stray from the window and still count as that window
+const WINDOW_TOLERANCE = 0.05;
+
+type SnapshotListener = () => void;
+const listeners = new Set<SnapshotListener>();
+
+export const getWatchlistInterval = (): number => {
+  const stored = parseInt(localStorage.getItem(REFRESH_INTERVAL_STORAGE_KEY) || '');
+  return WATCHLIST_INTERVAL_OPTIONS.includes(stored) ? stored : 0;
+};
+
+export const setWatchlistInterval = (minutes: number) => {
+  localStorage.setItem(REFRESH_INTERVAL_STORAGE_KEY, (WATCHLIST_INTERVAL_OPTIONS.includes(minutes) ? minutes : 0).toString());
+};
+
+// Called after new snapshots are stored or the watchlist changes
+export const subscribeToSnapshots = (listener: SnapshotListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+// --- Watchlist ---
+
+export const getWatchlist = async (): Promise<WatchlistEntry[]> => {
+  const entries = await getAllRecords<WatchlistEntry>(STORES.watchlist);
+  return entries.sort((a, b) => b.addedAt - a.addedAt);
+};
+
+export const watchVideos = async (videos: VideoData[], apiKey: string, signal?: AbortSignal): Promise<void> => {
+  const addedAt = Date.now();
+  await putRecords<WatchlistEntry>(STORES.watchlist, videos.map(video => ({ id: video.id, kind: 'video', title: video.title, addedAt, lastSnapshotAt: addedAt })));
+  // The first point of the curve needs live stats; the ones in hand may have come from the cache
+  const fresh = await getVideoDetails(videos.map(video => video.id), apiKey, signal, true);
+  await recordSnapshots(fresh, addedAt);
+};
+
+export const watchChannel = async (input: string, apiKey: string, signal?: AbortSignal): Promise<WatchlistEntry> => {
+  const channel = await resolveChannel(input, apiKey, signal);
+  const entry: WatchlistEntry = { id: channel.id, kind: 'channel', title: channel.title, addedAt: Date.now() };
+  await putRecord(STORES.watchlist, entry);
+  notify();
+  return entry;
+};
+
+// Past snapshots are kept; they still chart the video if it is watched again
+export const unwatch = async (id: string): Promise<void> => {
+  await deleteRecord(STORES.watchlist, id);
+  notify();
+};
+
+// --- Snapshots ---
+
+export const recordSnapshots = async (videos: VideoData[], takenAt: number = Date.now()): Promise<void> => {
+  await putRecords<StatsSnapshot>(STORES.snapshots, videos.map(video => ({
+    id: `${video.id}@${takenAt}`,
+    videoId: video.id,
+    channelId: video.channelId,
+    takenAt,
+    viewCount: parseInt(video.viewCount) || 0,
+    likeCount: parseInt(video.likeCount || '0') || 0,
+    commentCount: parseInt(video.commentCount || '0') || 0,
+  })));
+  notify();
+};
+
+// Oldest first
+const byTime = (snapshots: StatsSnapshot[]) => snapshots.sort((a, b) => a.takenAt - b.takenAt);
+
+export const getSnapshotsForVideos = async (videoIds: string[]): Promise<Record<string, StatsSnapshot[]>> => {
+  const lists = await Promise.all(videoIds.map(id => getRecordsByIndex<StatsSnapshot>(STORES.snapshots, 'videoId', id)));
+  return Object.fromEntries(videoIds.map((id, i) => [id, byTime(lists[i])]));
+};
+
+export const getChannelSnapshots = async (channelId: string): Promise<StatsSnapshot[]> =>
+  byTime(await getRecordsByIndex<StatsSnapshot>(STORES.snapshots, 'channelId', channelId));
+
+// Views gained over the trailing window, measured back from the latest snapshot.
+// The baseline is the newest snapshot at or before the window start, or the oldest one when
+// tracking is younger than the window. With sparse snapshots that baseline can be much older than
+// the window, so check `hours` (see coversWindow). Null until there are two snapshots to compare.
+export const getViewGrowth = (snapshots: StatsSnapshot[], windowHours: number): ViewGrowth | null => {
+  if (snapshots.length < 2) return null;
+  const latest = snapshots[snapshots.length - 1];
+  const windowStart = latest.takenAt - windowHours * HOUR_MS;
+  const baseline = [...snapshots].reverse().find(s => s.takenAt <= windowStart) || snapshots[0];
+  if (baseline === latest) return null;
+  return {
+    gained: latest.viewCount - baseline.viewCount,
+    hours: (latest.takenAt - baseline.takenAt) / HOUR_MS,
+  };
+};
+
+// Whether a growth figure really covers `windowHours`, so it can be reported as e.g. "last 24h"
+export const coversWindow = (growth: ViewGrowth, windowHours: number): boolean =>
+  Math.abs(growth.hours - windowHours) <= windowHours * WINDOW_TOLERANCE;
+
+// Total views gained across the channel's tracked uploads
+export const getChannelViewGrowth = (snapshots: StatsSnapshot[], windowHours: number): ViewGrowth | null => {
+  const byVideo = new Map<string, StatsSnapshot[]>();
+  snapshots.forEach(snapshot => byVideo.set(snapshot.videoId, [...(byVideo.get(snapshot.videoId) || []), snapshot]));
+
+  let total: ViewGrowth | null = null;
+  byVideo.forEach(videoSnapshots => {
+    const growth = getViewGrowth(videoSnapshots, windowHours);
+    if (!growth) return;
+    total = { gained: (total?.gained || 0) + growth.gained, hours: Math.max(total?.hours || 0, growth.hours) };
+  });
+  return total;
+};
+
+// Re-snapshot everything on the watchlist. Stats always come from the API (the cache is bypassed).
+// Resolves with the number of videos snapshotted.
+export const refreshWatchlist = async (apiKey: string, onProgress?: (msg: string) => void, signal?: AbortSignal): Promise<number> => {
+  const entries = await getWatchlist();
+  const takenAt = Date.now();
+  let count = 0;
+
+  const videoIds = entries.filter(entry => entry.kind === 'video').map(entry => entry.id);
+  if (videoIds.length > 0) {
+    if (onProgress) onProgress(`Snapshotting ${videoIds.length} watched video(s)...`);
+    const videos = await getVideoDetails(videoIds, apiKey, signal, true);
+    await recordSnapshots(videos, takenAt);
+    count += videos.length;
+  }
+
+  for (const entry of entries.filter(e => e.kind === 'channel')) {
+    if (onProgress) onProgress(`Snapshotting latest uploads of ${entry.title}...`);
+    const videos = await fetchChannelVideos(entry.id, CHANNEL_SNAPSHOT_LIMIT, 'any', apiKey, undefined, {
+      strategy: 'uploads',
+      order: 'latest',
+      signal,
+      forceRefresh: true,
+    });
+    await recordSnapshots(videos, takenAt);
+    count += videos.length;
+  }
+
+  await putRecords<WatchlistEntry>(STORES.watchlist, entries.map(entry => ({ ...entry, lastSnapshotAt: takenAt })));
+  notify();
+  return count;
+};
@@ -0,0 +1,45 @@
+import { TranscriptSegment } from '../types';
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+// Fallback length for segments the provider returned without a duration
+const DEFAULT_CUE_SECONDS = 2;
+
+// Helper: Format seconds as HH:MM:SS<sep>mmm (SRT uses a comma, WebVTT a dot)
+const formatCueTime = (totalSeconds: number, separator: ',' | '.'): string => {
+  const ms = Math.max(0, Math.round(totalSeconds * 1000));
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+// Helper: Cue end time, clamped so cues never overlap the next one
+const getCueEnd = (segments: TranscriptSegment[], index: number): number => {
+  const segment = segments[index];
+  const next = segments[index + 1];
+  const end = segment.start + (segment.duration > 0 ? segment.duration : DEFAULT_CUE_SECONDS);
+  return next && next.start > segment.start ? Math.min(end, next.start) : end;
+};
+
+export const toSrt = (segments: TranscriptSegment[]): string =>
+  segments
+    .map((segment, i) => [
+      i + 1,
+      `${formatCueTime(segment.start, ',')} --> ${formatCueTime(getCueEnd(segments, i), ',')}`,
+      segment.text,
+    ].join('\n'))
+    .join('\n\n') + '\n';
+
+export const toVtt = (segments: TranscriptSegment[]): string =>
+  'WEBVTT\n\n' + segments
+    .map((segment, i) => [
+      `${formatCueTime(segment.start, '.')} --> ${formatCueTime(getCueEnd(segments, i), '.')}`,
+      // "-->" is not allowed inside a cue payload
+      segment.text.replace(/-->/g, '->'),
+    ].join('\n'))
+    .join('\n\n') + '\n';
+
+export const buildSubtitles = (segments: TranscriptSegment[], format: SubtitleFormat): string =>
+  format === 'srt' ? toSrt(segments) : toVtt(segments);
@@ -0,0 +1,128 @@
+import { VideoData } from '../types';
+import { median } from './scoringService';
+
+// What a title is made of
+export interface TitleFeatures {
+  length: number; // Characters
+  wordCount: number;
+  capsRatio: number; // Share of words (2+ letters) written in all caps, 0-1
+  isQuestion: boolean;
+  hasNumber: boolean;
+  isListicle: boolean; // "7 Ways...", "Top 10...", "5 things..."
+  hasEmoji: boolean;
+  hasBrackets: boolean; // [..] or (..)
+  firstPerson: boolean;
+  secondPerson: boolean;
+  hooks: string[]; // HOOK_PHRASES found in the title
+}
+
+// A yes/no property of a title that can be compared across the result set
+export interface TitlePattern {
+  id: string;
+  label: string;
+  matches: (features: TitleFeatures) => boolean;
+}
+
+// One pattern's performance: videos whose titles match it against the rest
+export interface TitlePatternStat {
+  id: string;
+  label: string;
+  count: number; // Matching videos
+  share: number; // Percent of the result set
+  medianWith: number | null;
+  medianWithout: number | null;
+  lift: number | null; // medianWith / medianWithout; above 1 means the pattern goes with better performance
+}
+
+// Phrases that commonly open or frame a hook. Matched on word boundaries, case-insensitively.
+export const HOOK_PHRASES = [
+  'how to', 'why', 'what happens', 'i tried', 'you won\'t believe', 'nobody', 'never', 'stop', 'secret',
+  'truth', 'mistake', 'best', 'worst', 'ultimate', 'vs', 'in 24 hours', 'for beginners', 'explained', 'finally', 'before you',
+];
+
+const FIRST_PERSON = /\b(i|i'm|i've|me|my|mine|we|we're|our|us)\b/i;
+const SECOND_PERSON = /\b(you|you're|you've|your|yours)\b/i;
+const LISTICLE = /^\s*(top\s+)?\d{1,2}\s+\w+|\btop\s+\d+\b/i;
+const EMOJI = /\p{Extended_Pictographic}/u;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const HOOK_PATTERNS = HOOK_PHRASES.map(phrase => ({ phrase, pattern: new RegExp(`(^|[^\\p{L}])${escapeRegExp(phrase)}($|[^\\p{L}])`, 'iu') }));
+
+export const extractTitleFeatures = (title: string): TitleFeatures => {
+  const words = title.split(/\s+/).filter(Boolean);
+  const letterWords = words.map(word => word.replace(/[^\p{L}]/gu, '')).filter(word => word.length >= 2);
+  const capsWords = letterWords.filter(word => word === word.toUpperCase() && word !== word.toLowerCase());
+
+  return {
+    length: title.length,
+    wordCount: words.length,
+    capsRatio: letterWords.length > 0 ? capsWords.length / letterWords.length : 0,
+    isQuestion: title.includes('?'),
+    hasNumber: /\d/.test(title),
+    isListicle: LISTICLE.test(title),
+    hasEmoji: EMOJI.test(title),
+    hasBrackets: /[[\]()]/.test(title),
+    firstPerson: FIRST_PERSON.test(title),
+    secondPerson: SECOND_PERSON.test(title),
+    hooks: HOOK_PATTERNS.filter(({ pattern }) => pattern.test(title)).map(({ phrase }) => phrase),
+  };
+};
+
+export const TITLE_PATTERNS: TitlePattern[] = [
+  { id: 'length-short', label: 'Short (under 40 chars)', matches: f => f.length < 40 },
+  { id: 'length-medium', label: 'Medium (40-60 chars)', matches: f => f.length >= 40 && f.length <= 60 },
+  { id: 'length-long', label: 'Long (over 60 chars)', matches: f => f.length > 60 },
+  { id: 'question', label: 'Question', matches: f => f.isQuestion },
+  { id: 'statement', label: 'Statement (no question)', matches: f => !f.isQuestion },
+  { id: 'number', label: 'Contains a number', matches: f => f.hasNumber },
+  { id: 'listicle', label: 'Listicle ("7 Ways...", "Top 10")', matches: f => f.isListicle },
+  { id: 'caps', label: 'Heavy caps (30%+ words)', matches: f => f.capsRatio >= 0.3 },
+  { id: 'emoji', label: 'Emoji', matches: f => f.hasEmoji },
+  { id: 'brackets', label: 'Brackets or parentheses', matches: f => f.hasBrackets },
+  { id: 'first-person', label: 'First person (I, my, we)', matches: f => f.firstPerson },
+  { id: 'second-person', label: 'Second person (you, your)', matches: f => f.secondPerson },
+  ...HOOK_PHRASES.map(phrase => ({ id: `hook:${phrase}`, label: `Hook: "${phrase}"`, matches: (f: TitleFeatures) => f.hooks.includes(phrase) })),
+];
+
+// Compare each pattern's matching videos with the rest by `performance` (videos without one are ignored).
+// Patterns no video matches are left out.
+export const analyzeTitlePatterns = (videos: VideoData[], performance: (video: VideoData) => number | undefined): TitlePatternStat[] => {
+  const scored = videos
+    .map(video => ({ features: extractTitleFeatures(video.title), value: performance(video) }))
+    .filter((entry): entry is { features: TitleFeatures; value: number } => entry.value !== undefined);
+
+  return TITLE_PATTERNS.map(pattern => {
+    const withValues = scored.filter(entry => pattern.matches(entry.features)).map(entry => entry.value);
+    const withoutValues = scored.filter(entry => !pattern.matches(entry.features)).map(entry => entry.value);
+    const medianWith = withValues.length > 0 ? median(withValues) : null;
+    const medianWithout = withoutValues.length > 0 ? median(withoutValues) : null;
+    return {
+      id: pattern.id,
+      label: pattern.label,
+      count: withValues.length,
+      share: scored.length > 0 ? (withValues.length / scored.length) * 100 : 0,
+      medianWith,
+      medianWithout,
+      lift: medianWith !== null && medianWithout !== null && medianWithout > 0 ? medianWith / medianWithout : null,
+    };
+  }).filter(stat => stat.count > 0);
+};
+
+// Labels of the patterns a title matches, for per-video exports
+export const describeTitlePatterns = (title: string): string[] => {
+  const features = extractTitleFeatures(title);
+  return TITLE_PATTERNS.filter(pattern => pattern.matches(features)).map(pattern => pattern.label);
+};
+
+export const buildTitlePatternCsv = (stats: TitlePatternStat[], metricName: string): string => {
+  const headers = ["Pattern", "Videos", "Share (%)", `Median ${metricName} With`, `Median ${metricName} Without`, "Lift"];
+  const rows = stats.map(stat => [
+    `"${stat.label.replace(/"/g, '""')}"`,
+    stat.count,
+    stat.share.toFixed(1),
+    stat.medianWith?.toFixed(4) ?? '',
+    stat.medianWithout?.toFixed(4) ?? '',
+    stat.lift?.toFixed(3) ?? '',
+  ]);
+  return [headers.join(","), ...rows.map(row => row.join(","))].join("\n");
+};
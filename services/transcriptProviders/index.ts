@@ -0,0 +1,20 @@
+import { TranscriptProviderDefinition } from './types';
+import { supadataProvider } from './supadata';
+import { rapidApiProvider } from './rapidApi';
+
+export type { TranscriptProviderDefinition, TranscriptResult } from './types';
+export { isFailoverError, toApiError, createProviderError } from './shared';
+
+// Registered transcript providers, in display order. The first one is the default.
+export const TRANSCRIPT_PROVIDERS: TranscriptProviderDefinition[] = [
+  supadataProvider,
+  rapidApiProvider,
+];
+
+export const DEFAULT_TRANSCRIPT_PROVIDER = TRANSCRIPT_PROVIDERS[0].id;
+
+export const getTranscriptProvider = (id: string): TranscriptProviderDefinition | undefined =>
+  TRANSCRIPT_PROVIDERS.find(provider => provider.id === id);
+
+export const isTranscriptProvider = (id: string | null): id is string =>
+  !!id && TRANSCRIPT_PROVIDERS.some(provider => provider.id === id);
@@ -0,0 +1,61 @@
+import { Key } from 'lucide-react';
+import { TranscriptProviderDefinition, TranscriptResult } from './types';
+import { countRetries, createProviderError, safeJsonFetch, toTranscriptResult } from './shared';
+import { fetchWithRetry } from '../httpClient';
+
+const RAPID_API_HOST = 'youtube-transcripts.p.rapidapi.com';
+
+// Implementation: RapidAPI (Veritoolz / youtube-transcripts)
+const fetchTranscriptRapid = async (videoId: string, apiKey: string, lang?: string, signal?: AbortSignal, onRetry?: () => void): Promise<TranscriptResult> => {
+    // Veritoolz usually uses the youtube-transcripts.p.rapidapi.com endpoint
+    const langParam = lang ? `&lang=${encodeURIComponent(lang)}` : '';
+    const url = `https://${RAPID_API_HOST}/youtube/transcript?url=https://www.youtube.com/watch?v=${videoId}${langParam}`;
+    const options = {
+        method: 'GET',
+        headers: {
+            'x-rapidapi-key': apiKey,
+            'x-rapidapi-host': RAPID_API_HOST
+        },
+        signal
+    };
+
+    const response = await fetchWithRetry(url, options, { label: 'RapidAPI', onAttempt: countRetries(onRetry) });
+    const data = await safeJsonFetch(response, "RapidAPI");
+
+    if (!response.ok) {
+        throw createProviderError(data.message || `RapidAPI Error ${response.status}`, response.status);
+    }
+
+    // Parse Response (segments carry their own `lang`)
+    if (data.content && Array.isArray(data.content)) {
+        return { ...toTranscriptResult(data.content), language: data.lang || data.content[0]?.lang };
+    }
+    
+    if (Array.isArray(data)) {
+         return { ...toTranscriptResult(data), language: data[0]?.lang };
+    }
+
+    throw createProviderError("Unexpected response format from RapidAPI", response.status, 'invalid-response');
+}
+
+export const rapidApiProvider: TranscriptProviderDefinition = {
+  id: 'rapid-api',
+  name: 'RapidAPI (Veritoolz)',
+  shortName: 'RapidAPI',
+  keyStorageKey: 'rapid_api_key',
+  usageStorageKey: 'rapid_usage',
+  quotaLimit: 20,
+  minRequestInterval: 1000,
+  keyPlaceholder: 'Paste your RapidAPI key here',
+  keyUrl: 'https://rapidapi.com/veritoolz/api/youtube-transcripts',
+  keyUrlLabel: 'Get API Key from RapidAPI',
+  capabilities: { timestamps: true, languages: true },
+  theme: {
+    icon: Key,
+    text: 'text-blue-400',
+    bar: 'bg-blue-500',
+    glow: 'shadow-[0_0_8px_rgba(59,130,246,0.5)]',
+    focus: 'focus:ring-blue-500 focus:border-blue-500',
+  },
+  fetchTranscript: fetchTranscriptRapid,
+};
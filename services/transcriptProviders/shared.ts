@@ -0,0 +1,131 @@
+import { ApiError, ApiErrorCategory, TranscriptSegment } from '../../types';
+import { TranscriptResult } from './types';
+
+// Helper: normalize transcript content to plain text
+export const normalizeTranscriptText = (content: any): string => {
+  if (!content) return "";
+  
+  // If it's already a string, return it
+  if (typeof content === 'string') {
+      return content.replace(/\s+/g, ' ').trim();
+  }
+
+  // If it's an array of segments (common structure: [{text: "...", ...}])
+  if (Array.isArray(content)) {
+    return content
+      .map((item: any) => item.text || item.snippet || "")
+      .join(" ")
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  // If it's an object, try to find a known text field or recurse
+  if (typeof content === 'object') {
+    if (content.text && typeof content.text === 'string') return content.text;
+    if (content.transcript) return normalizeTranscriptText(content.transcript);
+    // Last resort: stringify if it looks like unknown JSON
+    return JSON.stringify(content); 
+  }
+
+  return String(content);
+};
+
+// Helper: Extract timed segments from a provider's segment array.
+// Providers disagree on field names (offset/start, duration/dur) and units (ms vs s). Caption
+// lines rarely last longer than a few seconds, so a median duration above 60 means milliseconds.
+export const normalizeTranscriptSegments = (content: any): TranscriptSegment[] => {
+  if (!Array.isArray(content)) return [];
+
+  const raw = content
+    .filter((item: any) => item && typeof item === 'object')
+    .map((item: any) => ({
+      start: Number(item.offset ?? item.start ?? 0) || 0,
+      duration: Number(item.duration ?? item.dur ?? 0) || 0,
+      text: String(item.text || item.snippet || '').replace(/\s+/g, ' ').trim(),
+    }))
+    .filter((segment: TranscriptSegment) => segment.text.length > 0);
+
+  if (raw.length === 0) return [];
+
+  const durations = raw.map((segment: TranscriptSegment) => segment.duration).sort((a: number, b: number) => a - b);
+  const scale = durations[Math.floor(durations.length / 2)] > 60 ? 1000 : 1;
+
+  return raw.map((segment: TranscriptSegment) => ({
+    start: segment.start / scale,
+    duration: segment.duration / scale,
+    text: segment.text,
+  }));
+};
+
+// Helper: Build a transcript result from any provider payload
+export const toTranscriptResult = (content: any): TranscriptResult => ({
+  text: normalizeTranscriptText(content),
+  segments: normalizeTranscriptSegments(content),
+});
+
+// Helper: Map an HTTP status to an error category
+const categorizeStatus = (code?: number): ApiErrorCategory => {
+  if (code === undefined) return 'unknown';
+  if (code === 401) return 'auth';
+  if (code === 402 || code === 403) return 'quota';
+  if (code === 404) return 'not-found';
+  if (code === 408) return 'timeout';
+  if (code === 429) return 'rate-limit';
+  if (code >= 500) return 'server';
+  return 'unknown';
+};
+
+// Helper: fetchWithRetry `onAttempt` that reports every attempt after the first to `onRetry`.
+// The first attempt is charged by the caller before the provider is called.
+export const countRetries = (onRetry?: () => void) => (attempt: number) => {
+  if (attempt > 0) onRetry?.();
+};
+
+// Helper: Error carrying an ApiError code and category, so callers can decide whether another provider should be tried
+export const createProviderError = (message: string, code?: number, category: ApiErrorCategory = categorizeStatus(code)): Error & ApiError =>
+  Object.assign(new Error(message), { code, category });
+
+// Helper: Normalize anything thrown during a fetch into an ApiError
+export const toApiError = (error: any): ApiError => {
+  if (error?.category) return { message: error.message, code: error.code, category: error.category };
+  // fetch rejects with a TypeError on network and CORS failures
+  if (error instanceof TypeError) return { message: error.message, category: 'network' };
+  return { message: error?.message || String(error), category: 'unknown' };
+};
+
+// Categories worth handing to the next provider: key/quota problems, timeouts, rate limits and server trouble.
+// A missing transcript (not-found) is a property of the video, which another provider will not fix.
+const FAILOVER_CATEGORIES: ApiErrorCategory[] = ['auth', 'quota', 'rate-limit', 'timeout', 'server', 'network'];
+
+export const isFailoverError = (error: any): boolean => {
+  const category = toApiError(error).category;
+  return !!category && FAILOVER_CATEGORIES.includes(category);
+};
+
+// Helper: Safe JSON Parse from Fetch Response
+export const safeJsonFetch = async (response: Response, errorPrefix: string): Promise<any> => {
+    const text = await response.text();
+    const status = response.status;
+    
+    // Check for HTTP Errors first to give better messages
+    if (status === 401) throw createProviderError(`${errorPrefix}: Unauthorized (401) - Check API Key`, status);
+    if (status === 403) throw createProviderError(`${errorPrefix}: Forbidden (403) - Quota or Key issue`, status);
+    if (status === 404) throw createProviderError(`${errorPrefix}: Not Found (404)`, status);
+    if (status === 429) throw createProviderError(`${errorPrefix}: Too Many Requests (429) - Rate limited`, status);
+    if (status === 500) throw createProviderError(`${errorPrefix}: Server Error (500)`, status);
+    if (status === 502) throw createProviderError(`${errorPrefix}: Bad Gateway (502) - Service overloaded`, status);
+    if (status === 503) throw createProviderError(`${errorPrefix}: Service Unavailable (503)`, status);
+
+    try {
+        return JSON.parse(text);
+    } catch (e) {
+        // If parsing fails, it's likely an HTML error page (e.g. <!DOCTYPE...)
+        // We trim the text to avoid flooding logs with full HTML
+        const snippet = text.slice(0, 100).replace(/\n/g, ' ');
+        throw createProviderError(
+            `${errorPrefix}: Invalid JSON response. Raw: "${snippet}..."`,
+            status,
+            response.ok ? 'invalid-response' : categorizeStatus(status)
+        );
+    }
+};
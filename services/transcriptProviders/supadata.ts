@@ -0,0 +1,97 @@
+import { Zap } from 'lucide-react';
+import { TranscriptProviderDefinition, TranscriptResult } from './types';
+import { countRetries, createProviderError, safeJsonFetch, toTranscriptResult } from './shared';
+import { delay } from '../concurrency';
+import { fetchWithRetry } from '../httpClient';
+
+const SUPADATA_API_URL = 'https://api.supadata.ai/v1';
+
+// Implementation: Supadata AI
+const fetchTranscriptSupadata = async (videoId: string, apiKey: string, lang?: string, signal?: AbortSignal, onRetry?: () => void): Promise<TranscriptResult> => {
+    const videoUrl = `https://www.youtube.com/watch?v=${videoId}`;
+    // text=false returns timed segments; the plain text is rebuilt from them.
+    // Supadata falls back to another language when `lang` is unavailable and reports what it returned.
+    const langParam = lang ? `&lang=${encodeURIComponent(lang)}` : '';
+    const apiUrl = `${SUPADATA_API_URL}/transcript?url=${encodeURIComponent(videoUrl)}&text=false&mode=auto${langParam}`;
+
+    const response = await fetchWithRetry(apiUrl, {
+        method: 'GET',
+        headers: {
+            'x-api-key': apiKey
+        },
+        signal
+    }, { label: 'Supadata', onAttempt: countRetries(onRetry) });
+
+    // Handle Async Processing (HTTP 202)
+    if (response.status === 202) {
+        const data = await safeJsonFetch(response, "Supadata (Async)");
+        if (!data.jobId) throw createProviderError("Received 202 but no jobId from Supadata.", 202, 'invalid-response');
+        return await pollSupadataJob(data.jobId, apiKey, signal, onRetry);
+    }
+
+    const data = await safeJsonFetch(response, "Supadata");
+
+    if (!response.ok) {
+        throw createProviderError(data.message || data.error || `Supadata Error ${response.status}`, response.status);
+    }
+
+    if (data.content !== undefined && data.content !== null) {
+        return { ...toTranscriptResult(data.content), language: data.lang, availableLanguages: data.availableLangs };
+    }
+
+    throw createProviderError("Unexpected response format from Supadata.", response.status, 'invalid-response');
+};
+
+// Helper: Poll Supadata Job Status
+const pollSupadataJob = async (jobId: string, apiKey: string, signal?: AbortSignal, onRetry?: () => void): Promise<TranscriptResult> => {
+    const pollUrl = `${SUPADATA_API_URL}/transcript/${jobId}`;
+    let attempts = 0;
+    const maxAttempts = 30; // ~60 seconds timeout (2s interval)
+
+    while (attempts < maxAttempts) {
+        // Wait 2 seconds (cancelling the run stops the polling here)
+        await delay(2000, signal);
+
+        const response = await fetchWithRetry(pollUrl, {
+            headers: { 'x-api-key': apiKey },
+            signal
+        }, { label: 'Supadata Poll', onAttempt: countRetries(onRetry) });
+        
+        const data = await safeJsonFetch(response, "Supadata Poll");
+
+        if (data.status === 'completed') {
+            return { ...toTranscriptResult(data.content), language: data.lang, availableLanguages: data.availableLangs };
+        }
+        
+        if (data.status === 'failed') {
+            throw createProviderError(data.error || "Supadata transcription job failed.", response.status, 'server');
+        }
+
+        // If 'queued' or 'active', continue loop
+        attempts++;
+    }
+
+    throw createProviderError("Supadata transcription timed out.", 408);
+};
+
+export const supadataProvider: TranscriptProviderDefinition = {
+  id: 'supadata',
+  name: 'Supadata AI',
+  shortName: 'Supadata',
+  keyStorageKey: 'supadata_api_key',
+  usageStorageKey: 'supadata_usage',
+  quotaLimit: 100,
+  minRequestInterval: 500,
+  keyPlaceholder: 'Paste your Supadata key here',
+  keyUrl: 'https://supadata.ai',
+  keyUrlLabel: 'Get API Key from Supadata.ai',
+  capabilities: { timestamps: true, languages: true },
+  theme: {
+    icon: Zap,
+    text: 'text-yellow-400',
+    bar: 'bg-yellow-500',
+    glow: 'shadow-[0_0_8px_rgba(234,179,8,0.5)]',
+    focus: 'focus:ring-yellow-500 focus:border-yellow-500',
+  },
+  fetchTranscript: fetchTranscriptSupadata,
+};
@@ -0,0 +1,44 @@
+import { LucideIcon } from 'lucide-react';
+import { TranscriptSegment, TranscriptTrack } from '../../types';
+
+export interface TranscriptResult {
+  text: string;
+  segments: TranscriptSegment[];
+  language?: string; // Language the provider actually returned
+  availableLanguages?: string[]; // Reported by providers that list alternatives
+  tracks?: TranscriptTrack[]; // Every language fetched, when several were requested
+  provider?: string; // Id of the provider that served it, set by the failover chain
+}
+
+export interface ProviderCapabilities {
+  timestamps: boolean; // Returns timed segments
+  languages: boolean; // Accepts a requested language
+}
+
+// Literal Tailwind classes so the CDN build picks them up
+export interface ProviderTheme {
+  icon: LucideIcon;
+  text: string; // e.g. 'text-yellow-400'
+  bar: string; // usage bar fill
+  glow: string; // usage bar shadow
+  focus: string; // key input focus ring/border
+}
+
+// Everything the settings modal, usage bar and scrape loop need to know about a provider.
+// Adding a provider means writing one module that exports one of these and listing it in the registry.
+export interface TranscriptProviderDefinition {
+  id: string;
+  name: string; // Full display name, e.g. "Supadata AI"
+  shortName: string; // Compact label for status pills and logs
+  keyStorageKey: string; // localStorage key holding the API key
+  usageStorageKey: string; // localStorage key holding the manual usage counter
+  quotaLimit: number; // Requests available on the plan we use
+  minRequestInterval: number; // Milliseconds between requests, shared by all concurrent workers
+  keyPlaceholder: string;
+  keyUrl: string; // Where to get a key
+  keyUrlLabel: string;
+  capabilities: ProviderCapabilities;
+  theme: ProviderTheme;
+  // `onRetry` runs before every retried request (see countRetries), so the caller can charge it to the usage counter
+  fetchTranscript: (videoId: string, apiKey: string, lang?: string, signal?: AbortSignal, onRetry?: () => void) => Promise<TranscriptResult>;
+}
@@ -1,8 +1,23 @@
-import { VideoData, VideoType, TranscriptProvider } from '../types';
+import { VideoData, ChannelProfile, VideoType, TranscriptProvider, TranscriptTrack, TranscriptStatus, ApiError, CrawlStrategy, ChannelSortOrder, SearchFilters } from '../types';
+import { getQuotaCost, recordQuotaUsage } from './quotaService';
+import { waitForRateLimit } from './concurrency';
+import { fetchWithRetry } from './httpClient';
+import { getCachedVideos, cacheVideos, getCachedChannels, cacheChannels, reportCacheHits, getTranscriptCacheKey, getCachedTranscript, cacheTranscript } from './cacheService';
+import { getTranscriptProvider, isFailoverError, toApiError, createProviderError, TranscriptResult } from './transcriptProviders';
 
 const BASE_URL = 'https://www.googleapis.com/youtube/v3';
-const RAPID_API_HOST = 'youtube-transcripts.p.rapidapi.com';
-const SUPADATA_API_URL = 'https://api.supadata.ai/v1';
+
+// Helper: Call a YouTube Data API endpoint, charging its unit cost to the quota ledger.
+// Google bills failed requests too, so every attempt (retries included) is recorded before it is sent.
+// An already-aborted signal throws before anything is sent or charged.
+const youtubeGet = async (endpoint: string, query: string, apiKey: string, signal?: AbortSignal): Promise<any> => {
+  signal?.throwIfAborted();
+  const response = await fetchWithRetry(`${BASE_URL}/${endpoint}?${query}&key=${apiKey}`, { signal }, {
+    label: `YouTube ${endpoint}`,
+    onAttempt: () => recordQuotaUsage(endpoint),
+  });
+  return response.json();
+};
 
 // Helper: Parse ISO 8601 duration to seconds
 export const parseDurationToSeconds = (duration: string): number => {
@@ -38,12 +53,39 @@ export const extractVideoId = (url: string): string | null => {
   return null;
 };
 
-// Helper: Extract Channel ID/Handle
-const resolveChannelId = async (input: string, apiKey: string): Promise<string> => {
+export interface ChannelCrawlOptions {
+  strategy?: CrawlStrategy;
+  order?: ChannelSortOrder;
+  signal?: AbortSignal;
+  forceRefresh?: boolean; // Bypass the video details cache
+}
+
+export interface ChannelRef {
+  id: string;
+  title: string;
+  uploadsPlaylistId: string;
+  profile: ChannelProfile;
+}
+
+const isChannelId = (value: string) => value.startsWith('UC') && value.length === 24;
+
+// Helper: Extract Playlist ID from a playlist/watch URL or a bare ID
+export const extractPlaylistId = (input: string): string | null => {
+  if (!input) return null;
   const cleanInput = input.trim();
-  // If it looks like a channel ID (UC...)
-  if (cleanInput.startsWith('UC') && cleanInput.length === 24) return cleanInput;
 
+  const listMatch = cleanInput.match(/[?&]list=([\w-]+)/);
+  if (listMatch && listMatch[1]) return listMatch[1];
+
+  // Bare IDs: user playlists (PL), uploads (UU), likes (LL), favourites (FL), other lists (OL)
+  if (/^(PL|UU|LL|FL|OL)[\w-]{10,}$/.test(cleanInput)) return cleanInput;
+
+  return null;
+};
+
+// Helper: Extract Channel ID/Handle
+const extractChannelHandle = (input: string): string => {
+  const cleanInput = input.trim();
   // If it's a handle (@name) or custom URL part
   let handle = cleanInput;
   if (cleanInput.includes('youtube.com/')) {
@@ -54,278 +96,512 @@ const resolveChannelId = async (input: string, apiKey: string): Promise<string>
          handle = parts[parts.indexOf('channel') + 1];
     }
   }
-  
+  return handle;
+};
+
+// Helper: Map a `channels` API item (snippet, statistics, contentDetails) to ChannelProfile
+const toChannelProfile = (item: any): ChannelProfile => ({
+  id: item.id,
+  title: item.snippet?.title || item.id,
+  customUrl: item.snippet?.customUrl,
+  thumbnail: item.snippet?.thumbnails?.high?.url || item.snippet?.thumbnails?.medium?.url || item.snippet?.thumbnails?.default?.url,
+  subscriberCount: item.statistics?.hiddenSubscriberCount ? undefined : item.statistics?.subscriberCount,
+  viewCount: item.statistics?.viewCount || '0',
+  videoCount: item.statistics?.videoCount || '0',
+  publishedAt: item.snippet?.publishedAt,
+  country: item.snippet?.country,
+  uploadsPlaylistId: item.contentDetails?.relatedPlaylists?.uploads,
+});
+
+// Helper: Look up a channel through the `channels` endpoint (1 unit) by id, handle or legacy username.
+// The parts cost the same whichever are requested, so the full profile is fetched and cached along the way.
+const lookupChannel = async (query: string, apiKey: string, signal?: AbortSignal): Promise<ChannelRef | null> => {
+  const data = await youtubeGet('channels', `part=snippet,statistics,contentDetails&${query}`, apiKey, signal);
+
+  if (data.error) throw new Error(data.error.message);
+  if (!data.items || data.items.length === 0) return null;
+
+  const profile = toChannelProfile(data.items[0]);
+  await cacheChannels([profile]);
+  return { id: profile.id, title: profile.title, uploadsPlaylistId: profile.uploadsPlaylistId || '', profile };
+};
+
+// Helper: Resolve a channel URL/handle to its ID and uploads playlist.
+// Tries the cheap `channels` lookups first and only falls back to `/search` (100 units) when they miss.
+export const resolveChannel = async (input: string, apiKey: string, signal?: AbortSignal): Promise<ChannelRef> => {
+  const handle = extractChannelHandle(input);
   if (!handle) throw new Error("Invalid channel URL or handle");
 
+  if (isChannelId(handle)) {
+    const channel = await lookupChannel(`id=${handle}`, apiKey, signal);
+    if (!channel) throw new Error(`Channel not found for ID: ${handle}`);
+    return channel;
+  }
+
+  const byHandle = await lookupChannel(`forHandle=${encodeURIComponent(handle.startsWith('@') ? handle : `@${handle}`)}`, apiKey, signal);
+  if (byHandle) return byHandle;
+
+  if (!handle.startsWith('@')) {
+    const byUsername = await lookupChannel(`forUsername=${encodeURIComponent(handle)}`, apiKey, signal);
+    if (byUsername) return byUsername;
+  }
+
   // Search for the channel to get ID
-  const response = await fetch(`${BASE_URL}/search?part=snippet&type=channel&q=${handle}&key=${apiKey}`);
-  const data = await response.json();
+  const data = await youtubeGet('search', `part=snippet&type=channel&q=${encodeURIComponent(handle)}`, apiKey, signal);
 
   if (!data.items || data.items.length === 0) {
     throw new Error(`Channel not found for handle: ${handle}`);
   }
 
-  return data.items[0].snippet.channelId;
+  const channel = await lookupChannel(`id=${data.items[0].snippet.channelId}`, apiKey, signal);
+  if (!channel) throw new Error(`Channel not found for handle: ${handle}`);
+  return channel;
 };
 
-// Fetch details for a list of video IDs
-export const getVideoDetails = async (videoIds: string[], apiKey: string): Promise<VideoData[]> => {
+// Profiles for a list of channel IDs (1 unit per 50 channels), keyed by ID.
+// Profiles cached within the statistics TTL are reused unless `forceRefresh` is set.
+// Channels the API does not return (deleted, terminated) are left out.
+export const getChannelProfiles = async (channelIds: string[], apiKey: string, signal?: AbortSignal, forceRefresh = false): Promise<Record<string, ChannelProfile>> => {
+  const cached = forceRefresh ? new Map<string, ChannelProfile>() : await getCachedChannels(channelIds);
+  const profiles: Record<string, ChannelProfile> = Object.fromEntries(cached);
+  const missingIds = channelIds.filter(id => !cached.has(id));
+
+  for (let i = 0; i < missingIds.length; i += 50) {
+    const chunk = missingIds.slice(i, i + 50);
+    const data = await youtubeGet('channels', `part=snippet,statistics,contentDetails&id=${chunk.join(',')}`, apiKey, signal);
+    if (data.error) throw new Error(data.error.message);
+    const fetched: ChannelProfile[] = (data.items || []).map(toChannelProfile);
+    fetched.forEach(profile => { profiles[profile.id] = profile; });
+    await cacheChannels(fetched);
+  }
+  return profiles;
+};
+
+// Helper: Map a `videos` API item to VideoData
+const toVideoData = (item: any): VideoData => ({
+  id: item.id,
+  title: item.snippet.title,
+  url: `https://www.youtube.com/watch?v=${item.id}`,
+  thumbnail: item.snippet.thumbnails?.maxres?.url || item.snippet.thumbnails?.high?.url || item.snippet.thumbnails?.medium?.url,
+  viewCount: item.statistics.viewCount || '0',
+  likeCount: item.statistics.likeCount || '0',
+  commentCount: item.statistics.commentCount || '0',
+  publishedAt: item.snippet.publishedAt,
+  duration: item.contentDetails.duration,
+  channelTitle: item.snippet.channelTitle,
+  channelId: item.snippet.channelId,
+  tags: item.snippet.tags || [],
+  description: item.snippet.description || '',
+  categoryId: item.snippet.categoryId,
+  transcript: '',
+});
+
+// Fetch details for a list of video IDs.
+// Details cached within the statistics TTL (see cacheService) are reused unless `forceRefresh` is set;
+// only the rest are requested from the API.
+export const getVideoDetails = async (videoIds: string[], apiKey: string, signal?: AbortSignal, forceRefresh = false): Promise<VideoData[]> => {
   if (videoIds.length === 0) return [];
 
+  const cached = forceRefresh ? new Map<string, VideoData>() : await getCachedVideos(videoIds);
+  reportCacheHits(cached.size, videoIds.length);
+  const missingIds = videoIds.filter(id => !cached.has(id));
+
   // API limit is 50 per call
   const chunks = [];
-  for (let i = 0; i < videoIds.length; i += 50) {
-    chunks.push(videoIds.slice(i, i + 50));
+  for (let i = 0; i < missingIds.length; i += 50) {
+    chunks.push(missingIds.slice(i, i + 50));
   }
 
-  let allVideos: any[] = [];
+  let allItems: any[] = [];
 
   for (const chunk of chunks) {
-    const response = await fetch(`${BASE_URL}/videos?part=snippet,contentDetails,statistics&id=${chunk.join(',')}&key=${apiKey}`);
-    const data = await response.json();
+    const data = await youtubeGet('videos', `part=snippet,contentDetails,statistics&id=${chunk.join(',')}`, apiKey, signal);
     if (data.items) {
-      allVideos = [...allVideos, ...data.items];
+      allItems = [...allItems, ...data.items];
     }
   }
 
-  return allVideos.map((item: any) => ({
-    id: item.id,
-    title: item.snippet.title,
-    url: `https://www.youtube.com/watch?v=${item.id}`,
-    thumbnail: item.snippet.thumbnails?.maxres?.url || item.snippet.thumbnails?.high?.url || item.snippet.thumbnails?.medium?.url,
-    viewCount: item.statistics.viewCount || '0',
-    likeCount: item.statistics.likeCount || '0',
-    commentCount: item.statistics.commentCount || '0',
-    publishedAt: item.snippet.publishedAt,
-    duration: item.contentDetails.duration,
-    channelTitle: item.snippet.channelTitle,
-    channelId: item.snippet.channelId,
-    tags: item.snippet.tags || [],
-    description: item.snippet.description || '',
-    categoryId: item.snippet.categoryId,
-    transcript: '', 
-  }));
+  const fetched = allItems.map(toVideoData);
+  await cacheVideos(fetched);
+
+  // The API does not guarantee response order; keep the caller's ordering (e.g. playlist order)
+  const requestedOrder = new Map(videoIds.map((id, index) => [id, index]));
+  return [...cached.values(), ...fetched].sort((a, b) => (requestedOrder.get(a.id) ?? 0) - (requestedOrder.get(b.id) ?? 0));
 };
 
-// Helper: normalize transcript content to plain text
-const normalizeTranscriptText = (content: any): string => {
-  if (!content) return "";
-  
-  // If it's already a string, return it
-  if (typeof content === 'string') {
-      return content.replace(/\s+/g, ' ').trim();
-  }
+export interface TranscriptOptions {
+  languages?: string[]; // Preferred languages, in fallback order (ISO 639-1, e.g. "es")
+  allLanguages?: boolean; // Fetch every preferred language instead of the first available
+  signal?: AbortSignal; // Aborts in-flight requests, rate-limit waits and async job polling
+  forceRefresh?: boolean; // Ignore a cached transcript and fetch it again
+}
 
-  // If it's an array of segments (common structure: [{text: "...", ...}])
-  if (Array.isArray(content)) {
-    return content
-      .map((item: any) => item.text || item.snippet || "")
-      .join(" ")
-      .replace(/\s+/g, ' ')
-      .trim();
-  }
+// Helper: "es" matches "es", "es-419", "es-ES"
+const matchesLanguage = (actual: string, wanted: string): boolean => {
+  const a = actual.toLowerCase();
+  const w = wanted.toLowerCase();
+  return a === w || a.startsWith(`${w}-`) || w.startsWith(`${a}-`);
+};
+
+type LanguageFetcher = (lang?: string) => Promise<TranscriptResult>;
+
+// Helper: Walk the preferred languages in order and return the first transcript in one of them.
+// If the provider only ever falls back to some other language, that transcript is returned instead.
+const fetchPreferredLanguage = async (fetchOne: LanguageFetcher, languages: string[]): Promise<TranscriptResult> => {
+  if (languages.length === 0) return fetchOne();
+
+  let fallback: TranscriptResult | null = null;
+  let available: string[] | undefined;
+  let lastError: any = null;
 
-  // If it's an object, try to find a known text field or recurse
-  if (typeof content === 'object') {
-    if (content.text && typeof content.text === 'string') return content.text;
-    if (content.transcript) return normalizeTranscriptText(content.transcript);
-    // Last resort: stringify if it looks like unknown JSON
-    return JSON.stringify(content); 
+  for (const lang of languages) {
+    // Skip languages the provider already told us it does not have
+    if (available && !available.some(a => matchesLanguage(a, lang))) continue;
+    try {
+      const result = await fetchOne(lang);
+      // An unreported language is left unset rather than assumed to be the one requested
+      if (!result.language || matchesLanguage(result.language, lang)) return result;
+      fallback = fallback || result;
+      available = result.availableLanguages;
+    } catch (error) {
+      lastError = error;
+    }
   }
 
-  return String(content);
+  if (fallback) return fallback;
+  throw lastError || new Error(`No transcript available in: ${languages.join(', ')}`);
 };
 
-// Helper: Safe JSON Parse from Fetch Response
-const safeJsonFetch = async (response: Response, errorPrefix: string): Promise<any> => {
-    const text = await response.text();
-    
-    // Check for HTTP Errors first to give better messages
-    if (response.status === 401) throw new Error(`${errorPrefix}: Unauthorized (401) - Check API Key`);
-    if (response.status === 403) throw new Error(`${errorPrefix}: Forbidden (403) - Quota or Key issue`);
-    if (response.status === 404) throw new Error(`${errorPrefix}: Not Found (404)`);
-    if (response.status === 500) throw new Error(`${errorPrefix}: Server Error (500)`);
-    if (response.status === 502) throw new Error(`${errorPrefix}: Bad Gateway (502) - Service overloaded`);
+// Helper: Fetch a separate track for every preferred language the video has
+const fetchAllLanguages = async (fetchOne: LanguageFetcher, languages: string[]): Promise<TranscriptResult> => {
+  const tracks: TranscriptTrack[] = [];
+  let lastError: any = null;
 
+  for (const lang of languages) {
     try {
-        return JSON.parse(text);
-    } catch (e) {
-        // If parsing fails, it's likely an HTML error page (e.g. <!DOCTYPE...)
-        // We trim the text to avoid flooding logs with full HTML
-        const snippet = text.slice(0, 100).replace(/\n/g, ' ');
-        throw new Error(`${errorPrefix}: Invalid JSON response. Raw: "${snippet}..."`);
+      const result = await fetchOne(lang);
+      const language = result.language || lang;
+      // A provider fallback to another language is not the track we asked for
+      if (!matchesLanguage(language, lang)) continue;
+      if (tracks.some(track => matchesLanguage(track.language, language))) continue;
+      tracks.push({ language, ...(result.language ? {} : { languageInferred: true }), text: result.text, segments: result.segments });
+    } catch (error) {
+      lastError = error;
     }
-};
+  }
 
-// Implementation: RapidAPI (Veritoolz / youtube-transcripts)
-const fetchTranscriptRapid = async (videoId: string, apiKey: string): Promise<string> => {
-    // Veritoolz usually uses the youtube-transcripts.p.rapidapi.com endpoint
-    const url = `https://${RAPID_API_HOST}/youtube/transcript?url=https://www.youtube.com/watch?v=${videoId}`;
-    const options = {
-        method: 'GET',
-        headers: {
-            'x-rapidapi-key': apiKey,
-            'x-rapidapi-host': RAPID_API_HOST
-        }
-    };
+  if (tracks.length === 0) {
+    throw lastError || new Error(`No transcript available in: ${languages.join(', ')}`);
+  }
+  const [primary] = tracks;
+  return { text: primary.text, segments: primary.segments, language: primary.languageInferred ? undefined : primary.language, tracks };
+};
 
-    const response = await fetch(url, options);
-    const data = await safeJsonFetch(response, "RapidAPI");
+export interface ProviderCredentials {
+  provider: TranscriptProvider;
+  apiKey: string;
+  reserveCall: () => boolean; // Takes one request off the provider's usage counter; false when none are left
+  releaseCall: () => void; // Gives back a reserved request that was never sent
+}
 
-    if (!response.ok) {
-        throw new Error(data.message || `RapidAPI Error ${response.status}`);
-    }
+// Helper: Fetch from a single provider, honoring the language preferences it supports
+const fetchFromProvider = async (
+    videoId: string,
+    credentials: ProviderCredentials,
+    options: TranscriptOptions,
+    countCall: () => void
+): Promise<TranscriptResult> => {
+    const definition = getTranscriptProvider(credentials.provider);
+    if (!definition) throw new Error("Invalid Transcription Provider selected.");
+    if (!credentials.apiKey) throw new Error(`${definition.shortName} API Key is required.`);
+    // Charges one request, or stops with a quota error (which fails over) when the counter is used up
+    const chargeCall = () => {
+      if (!credentials.reserveCall()) throw createProviderError(`${definition.shortName} usage limit reached`, undefined, 'quota');
+    };
+    const fetchOne: LanguageFetcher = async (lang) => {
+      chargeCall();
+      try {
+        await waitForRateLimit(definition.id, definition.minRequestInterval, options.signal);
+      } catch (error) {
+        credentials.releaseCall();
+        throw error;
+      }
+      countCall();
+      // Retried requests are real requests too
+      return definition.fetchTranscript(videoId, credentials.apiKey, lang, options.signal, () => {
+        chargeCall();
+        countCall();
+      });
+    };
 
-    // Parse Response
-    if (data.content && Array.isArray(data.content)) {
-        return normalizeTranscriptText(data.content);
-    }
-    
-    if (Array.isArray(data)) {
-         return normalizeTranscriptText(data);
-    }
+    // Providers without language selection only ever return their default track
+    const languages = !definition.capabilities.languages ? [] : (options.languages || []).map(l => l.trim()).filter(Boolean);
+    return options.allLanguages && languages.length > 1
+      ? await fetchAllLanguages(fetchOne, languages)
+      : await fetchPreferredLanguage(fetchOne, languages);
+};
 
-    return "Unexpected response format from RapidAPI";
+export interface TranscriptFetchResult extends TranscriptResult {
+  status: TranscriptStatus;
+  fromCache?: boolean; // Served from the local cache; no provider was called
+  calls: Record<TranscriptProvider, number>; // Requests sent to each provider, misses and failures included
 }
 
-// Implementation: Supadata AI
-const fetchTranscriptSupadata = async (videoId: string, apiKey: string): Promise<string> => {
-    const videoUrl = `https://www.youtube.com/watch?v=${videoId}`;
-    const apiUrl = `${SUPADATA_API_URL}/transcript?url=${encodeURIComponent(videoUrl)}&text=true&mode=auto&lang=en`;
-
-    const response = await fetch(apiUrl, {
-        method: 'GET',
-        headers: {
-            'x-api-key': apiKey
-        }
-    });
-
-    // Handle Async Processing (HTTP 202)
-    if (response.status === 202) {
-        const data = await safeJsonFetch(response, "Supadata (Async)");
-        if (!data.jobId) throw new Error("Received 202 but no jobId from Supadata.");
-        return await pollSupadataJob(data.jobId, apiKey);
+// Helper: One-line reason for a transcript that failed or is unavailable
+export const getTranscriptFailureMessage = (status?: TranscriptStatus): string => {
+  if (status?.state === 'failed') return status.error.message;
+  if (status?.state === 'unavailable') return status.reason;
+  return '';
+};
+
+// Main Fetch Transcript Function (Router)
+// Walks the provider chain in order. A provider that is out of quota (see reserveCall) is skipped, and one that
+// fails with a failover-worthy error (see isFailoverError) hands the video to the next.
+// Never throws: failures, cancellation and missing captions come back as the result's status.
+// Successful transcripts are cached for good; a cached one is returned without touching the chain.
+export const fetchTranscript = async (
+    videoId: string, 
+    chain: ProviderCredentials[],
+    options: TranscriptOptions = {}
+): Promise<TranscriptFetchResult> => {
+  const cacheKey = getTranscriptCacheKey(videoId, options.languages || [], !!options.allLanguages);
+  if (!options.forceRefresh) {
+    const cached = await getCachedTranscript(cacheKey);
+    if (cached) {
+      const { text, segments, language, tracks, provider } = cached;
+      return { text, segments, language, tracks, provider, status: { state: 'success' }, fromCache: true, calls: {} };
     }
+  }
 
-    const data = await safeJsonFetch(response, "Supadata");
+  const failures: ApiError[] = [];
+  const calls: Record<TranscriptProvider, number> = {};
 
-    if (!response.ok) {
-        throw new Error(data.message || data.error || `Supadata Error ${response.status}`);
+  for (const credentials of chain) {
+    try {
+      const result = await fetchFromProvider(videoId, credentials, options, () => {
+        calls[credentials.provider] = (calls[credentials.provider] || 0) + 1;
+      });
+
+      // Explicitly strict string return
+      const transcript = {
+        text: typeof result.text === 'string' ? result.text : String(result.text || ''),
+        segments: result.segments || [],
+        language: result.language,
+        tracks: result.tracks,
+        provider: credentials.provider,
+      };
+      await cacheTranscript({ key: cacheKey, videoId, ...transcript, cachedAt: Date.now() });
+      return { ...transcript, status: { state: 'success' }, calls };
+    } catch (error: any) {
+      // An aborted fetch is a cancellation, not a provider failure
+      if (options.signal?.aborted) return { text: '', segments: [], status: { state: 'cancelled' }, calls };
+      failures.push(toApiError(error));
+      if (!isFailoverError(error)) break;
     }
+  }
 
-    if (data.content !== undefined && data.content !== null) {
-        return normalizeTranscriptText(data.content);
-    }
+  if (failures.length === 0) failures.push({ message: "No transcription provider configured.", category: 'auth' });
 
-    throw new Error("Unexpected response format from Supadata.");
+  // The provider that ended the chain decides the outcome; earlier failures stay in the message
+  const last = failures[failures.length - 1];
+  const message = failures.map(failure => failure.message).join(' | ');
+  if (last.category === 'not-found') {
+    return { text: '', segments: [], status: { state: 'unavailable', reason: message }, calls };
+  }
+  return { text: '', segments: [], status: { state: 'failed', error: { ...last, message } }, calls };
 };
 
-// Helper: Poll Supadata Job Status
-const pollSupadataJob = async (jobId: string, apiKey: string): Promise<string> => {
-    const pollUrl = `${SUPADATA_API_URL}/transcript/${jobId}`;
-    let attempts = 0;
-    const maxAttempts = 30; // ~60 seconds timeout (2s interval)
-
-    while (attempts < maxAttempts) {
-        // Wait 2 seconds
-        await new Promise(resolve => setTimeout(resolve, 2000));
-
-        const response = await fetch(pollUrl, {
-            headers: { 'x-api-key': apiKey }
-        });
-        
-        const data = await safeJsonFetch(response, "Supadata Poll");
-
-        if (data.status === 'completed') {
-            return normalizeTranscriptText(data.content);
-        }
-        
-        if (data.status === 'failed') {
-            throw new Error(data.error || "Supadata transcription job failed.");
-        }
-
-        // If 'queued' or 'active', continue loop
-        attempts++;
-    }
+// Approx definition of a Short: the API does not flag them, so go by duration
+export const isShortVideo = (video: VideoData): boolean => parseDurationToSeconds(video.duration) <= 60;
 
-    throw new Error("Supadata transcription timed out.");
+// Helper: Check a video against the requested content type
+const matchesVideoType = (video: VideoData, videoType: VideoType): boolean => {
+  if (videoType === 'short') return isShortVideo(video);
+  if (videoType === 'video') return !isShortVideo(video);
+  return true;
 };
 
-// Main Fetch Transcript Function (Router)
-export const fetchTranscript = async (
-    videoId: string, 
-    provider: TranscriptProvider, 
-    apiKey?: string
-): Promise<string> => {
-  try {
-    let result: unknown;
-    if (provider === 'rapid-api') {
-        if (!apiKey) throw new Error("RapidAPI Key is required.");
-        result = await fetchTranscriptRapid(videoId, apiKey);
-    } else if (provider === 'supadata') {
-        if (!apiKey) throw new Error("Supadata API Key is required.");
-        result = await fetchTranscriptSupadata(videoId, apiKey);
-    } else {
-        throw new Error("Invalid Transcription Provider selected.");
-    }
+interface VideoIdPage {
+  videoIds: string[];
+  nextPageToken?: string;
+}
+
+// Helper: Walk a paged ID listing, hydrate each page through getVideoDetails and keep the videos
+// matching `videoType`. Stops when the listing runs out or `isDone` reports enough were collected.
+const crawlVideoPages = async (
+  fetchPage: (pageToken?: string) => Promise<VideoIdPage>,
+  isDone: (collected: VideoData[]) => boolean,
+  videoType: VideoType,
+  apiKey: string,
+  onProgress?: (msg: string) => void,
+  signal?: AbortSignal,
+  forceRefresh = false
+): Promise<VideoData[]> => {
+  const collected: VideoData[] = [];
+  let pageToken: string | undefined;
+  let page = 0;
 
-    // Explicitly strict string return
-    return typeof result === 'string' ? result : String(result || '');
+  do {
+    page++;
+    const { videoIds, nextPageToken } = await fetchPage(pageToken);
+    pageToken = nextPageToken;
+    if (videoIds.length === 0) break;
 
-  } catch (error: any) {
-    return `Error: ${error.message}`;
-  }
+    if (onProgress) onProgress(`Page ${page}: found ${videoIds.length} candidate videos. Fetching details...`);
+    const detailedVideos = await getVideoDetails(videoIds, apiKey, signal, forceRefresh);
+
+    // Filter based on type before counting towards the limit
+    const matching = detailedVideos.filter(video => matchesVideoType(video, videoType));
+    collected.push(...matching);
+    if (onProgress) onProgress(`Page ${page}: ${matching.length} match type "${videoType}" (${collected.length} collected so far).`);
+  } while (pageToken && !isDone(collected));
+
+  if (onProgress && !pageToken) onProgress(`Reached the end of the listing after ${page} page(s).`);
+
+  return collected;
 };
 
-// Main function to fetch channel videos based on criteria
+// Helper: Page fetcher over a playlist's items (1 unit per page of 50)
+const createPlaylistPageFetcher = (playlistId: string, apiKey: string, signal?: AbortSignal) => async (pageToken?: string): Promise<VideoIdPage> => {
+  const pageParam = pageToken ? `&pageToken=${pageToken}` : '';
+  const data = await youtubeGet('playlistItems', `part=contentDetails&playlistId=${playlistId}&maxResults=50${pageParam}`, apiKey, signal);
+  if (data.error) throw new Error(data.error.message);
+  return {
+    videoIds: (data.items || []).map((item: any) => item.contentDetails.videoId).filter(Boolean),
+    nextPageToken: data.nextPageToken,
+  };
+};
+
+// Main function to fetch channel videos based on criteria.
+// Walks the channel page by page (50 per page) until `limit` matching videos are collected
+// or the channel runs out. Pass `Infinity` to crawl the whole channel.
+//
+// - 'search' strategy: `/search` ordered server-side (100 units per page).
+// - 'uploads' strategy: the channel's uploads playlist (1 unit per page). Uploads are listed
+//   newest first, so "top by views" has to read the full catalog and sort afterwards.
 export const fetchChannelVideos = async (
   channelInput: string,
   limit: number,
   videoType: VideoType,
   apiKey: string,
-  onProgress?: (msg: string) => void
+  onProgress?: (msg: string) => void,
+  options: ChannelCrawlOptions = {}
 ): Promise<VideoData[]> => {
+  const { strategy = 'search', order = 'views', signal, forceRefresh } = options;
+
   if (onProgress) onProgress(`Resolving channel ID for ${channelInput}...`);
-  const channelId = await resolveChannelId(channelInput, apiKey);
-  
-  if (onProgress) onProgress(`Channel ID resolved: ${channelId}. Searching for videos...`);
+  const channel = await resolveChannel(channelInput, apiKey, signal);
+  const channelId = channel.id;
 
-  // We fetch more than the limit initially because we might need to filter out shorts/longs
-  const searchLimit = Math.min(50, Math.max(limit * 3, 20)); 
+  if (strategy === 'uploads') {
+    if (onProgress) onProgress(`Channel ID resolved: ${channelId}. Reading uploads playlist ${channel.uploadsPlaylistId}...`);
 
-  const searchUrl = `${BASE_URL}/search?part=id&channelId=${channelId}&order=viewCount&type=video&maxResults=${searchLimit}&key=${apiKey}`;
-  
-  const searchRes = await fetch(searchUrl);
-  const searchData = await searchRes.json();
+    const isDone = (collected: VideoData[]) => order === 'latest' && collected.length >= limit;
+    const uploads = await crawlVideoPages(createPlaylistPageFetcher(channel.uploadsPlaylistId, apiKey, signal), isDone, videoType, apiKey, onProgress, signal, forceRefresh);
 
-  if (searchData.error) {
-    throw new Error(searchData.error.message);
+    if (order === 'views') {
+      if (onProgress) onProgress(`Ranking ${uploads.length} uploads by views...`);
+      uploads.sort((a, b) => (parseInt(b.viewCount) || 0) - (parseInt(a.viewCount) || 0));
+    }
+    return uploads.slice(0, limit);
   }
 
-  if (!searchData.items || searchData.items.length === 0) {
-    return [];
-  }
+  if (onProgress) onProgress(`Channel ID resolved: ${channelId}. Searching for videos...`);
 
-  const videoIds = searchData.items.map((item: any) => item.id.videoId);
-  
-  if (onProgress) onProgress(`Found ${videoIds.length} candidate videos. Fetching details...`);
-  
-  const detailedVideos = await getVideoDetails(videoIds, apiKey);
-
-  // Filter based on type
-  if (onProgress) onProgress(`Filtering videos by type: ${videoType}...`);
-  const filtered = detailedVideos.filter(video => {
-    const seconds = parseDurationToSeconds(video.duration);
-    if (videoType === 'short') return seconds <= 60; // Approx definition of Short
-    if (videoType === 'video') return seconds > 60;
-    return true;
-  });
+  const fetchSearchPage = async (pageToken?: string): Promise<VideoIdPage> => {
+    const pageParam = pageToken ? `&pageToken=${pageToken}` : '';
+    const searchOrder = order === 'latest' ? 'date' : 'viewCount';
+    const searchData = await youtubeGet('search', `part=id&channelId=${channelId}&order=${searchOrder}&type=video&maxResults=50${pageParam}`, apiKey, signal);
+
+    if (searchData.error) {
+      throw new Error(searchData.error.message);
+    }
+
+    return {
+      videoIds: (searchData.items || []).map((item: any) => item.id.videoId).filter(Boolean),
+      nextPageToken: searchData.nextPageToken,
+    };
+  };
 
-  return filtered.slice(0, limit);
+  const searched = await crawlVideoPages(fetchSearchPage, collected => collected.length >= limit, videoType, apiKey, onProgress, signal, forceRefresh);
+  return searched.slice(0, limit);
+};
+
+// Fetch every video in a playlist, in playlist order.
+// Private or deleted items are dropped by the videos endpoint, so positions count available videos only.
+export const fetchPlaylistVideos = async (
+  playlistInput: string,
+  apiKey: string,
+  onProgress?: (msg: string) => void,
+  signal?: AbortSignal,
+  forceRefresh = false
+): Promise<VideoData[]> => {
+  const playlistId = extractPlaylistId(playlistInput);
+  if (!playlistId) throw new Error("Invalid playlist URL or ID. Expected a link containing ?list=...");
+
+  if (onProgress) onProgress(`Playlist ID extracted: ${playlistId}. Fetching playlist info...`);
+  const info = await youtubeGet('playlists', `part=snippet,contentDetails&id=${playlistId}`, apiKey, signal);
+  if (info.error) throw new Error(info.error.message);
+  if (!info.items || info.items.length === 0) throw new Error(`Playlist not found: ${playlistId}`);
+
+  const playlistTitle: string = info.items[0].snippet.title;
+  if (onProgress) onProgress(`Playlist "${playlistTitle}" has ${info.items[0].contentDetails?.itemCount ?? '?'} items. Reading pages...`);
+
+  const videos = await crawlVideoPages(createPlaylistPageFetcher(playlistId, apiKey, signal), () => false, 'any', apiKey, onProgress, signal, forceRefresh);
+
+  return videos.map((video, index) => ({ ...video, playlistTitle, playlistPosition: index + 1 }));
+};
+
+// Helper: Date inputs give YYYY-MM-DD, the API wants RFC 3339 timestamps
+const toRfc3339 = (value: string, endOfDay: boolean): string => {
+  if (value.includes('T')) return value;
+  return `${value}T${endOfDay ? '23:59:59' : '00:00:00'}Z`;
+};
+
+// Keyword search across YouTube with the standard `/search` filters (100 units per page of 50).
+export const searchVideos = async (
+  filters: SearchFilters,
+  limit: number,
+  apiKey: string,
+  onProgress?: (msg: string) => void,
+  signal?: AbortSignal,
+  forceRefresh = false
+): Promise<VideoData[]> => {
+  const query = filters.query.trim();
+  if (!query) throw new Error("Please provide a search query.");
+
+  const params = [
+    'part=id',
+    'type=video',
+    'maxResults=50',
+    `q=${encodeURIComponent(query)}`,
+    `order=${filters.order}`,
+  ];
+  if (filters.videoDuration !== 'any') params.push(`videoDuration=${filters.videoDuration}`);
+  if (filters.publishedAfter) params.push(`publishedAfter=${encodeURIComponent(toRfc3339(filters.publishedAfter, false))}`);
+  if (filters.publishedBefore) params.push(`publishedBefore=${encodeURIComponent(toRfc3339(filters.publishedBefore, true))}`);
+  if (filters.regionCode) params.push(`regionCode=${encodeURIComponent(filters.regionCode.trim().toUpperCase())}`);
+  if (filters.relevanceLanguage) params.push(`relevanceLanguage=${encodeURIComponent(filters.relevanceLanguage.trim().toLowerCase())}`);
+  const baseQuery = params.join('&');
+
+  if (onProgress) onProgress(`Searching YouTube for "${query}" (order: ${filters.order})...`);
+
+  const fetchSearchPage = async (pageToken?: string): Promise<VideoIdPage> => {
+    const pageParam = pageToken ? `&pageToken=${pageToken}` : '';
+    const data = await youtubeGet('search', `${baseQuery}${pageParam}`, apiKey, signal);
+    if (data.error) throw new Error(data.error.message);
+    return {
+      videoIds: (data.items || []).map((item: any) => item.id.videoId).filter(Boolean),
+      nextPageToken: data.nextPageToken,
+    };
+  };
+
+  const videos = await crawlVideoPages(fetchSearchPage, collected => collected.length >= limit, 'any', apiKey, onProgress, signal, forceRefresh);
+  return videos.slice(0, limit);
 };
 
 // Batch fetch from specific URLs
-export const fetchBatchVideos = async (urls: string[], apiKey: string, onProgress?: (msg: string) => void): Promise<VideoData[]> => {
+export const fetchBatchVideos = async (urls: string[], apiKey: string, onProgress?: (msg: string) => void, signal?: AbortSignal, forceRefresh = false): Promise<VideoData[]> => {
   if (onProgress) onProgress(`Processing ${urls.length} inputs...`);
   
   const ids = urls.map(url => extractVideoId(url)).filter(id => id !== null) as string[];
@@ -337,5 +613,52 @@ export const fetchBatchVideos = async (urls: string[], apiKey: string, onProgres
 
   if (onProgress) onProgress(`Found ${uniqueIds.length} unique video IDs. Fetching data from API...`);
   
-  return getVideoDetails(uniqueIds, apiKey);
-};
\ No newline at end of file
+  return getVideoDetails(uniqueIds, apiKey, signal, forceRefresh);
+};
+
+// --- Quota Estimation ---
+// Rough unit costs for a run, used to warn before a run would exceed the remaining daily budget.
+
+// When crawling "all" we cannot know the catalog size up front; assume a large channel
+const ASSUMED_FULL_CRAWL_PAGES = 20;
+// YouTube stops paging channel search results at roughly 500 items
+const MAX_SEARCH_PAGES = 10;
+
+export const estimateBatchCost = (videoCount: number): number =>
+  Math.ceil(videoCount / 50) * getQuotaCost('videos');
+
+export const estimatePlaylistCost = (): number =>
+  getQuotaCost('playlists') + ASSUMED_FULL_CRAWL_PAGES * (getQuotaCost('playlistItems') + getQuotaCost('videos'));
+
+export const estimateSearchCost = (limit: number): number => {
+  const pages = isFinite(limit) ? Math.min(Math.ceil(limit / 50), MAX_SEARCH_PAGES) : MAX_SEARCH_PAGES;
+  return pages * (getQuotaCost('search') + getQuotaCost('videos'));
+};
+
+// Worst case for resolveChannel: the `channels` lookups it tries, then the `/search` fallback and
+// the lookup of the channel it finds. A channel ID resolves with one lookup.
+export const estimateResolveChannelCost = (input?: string): number => {
+  const handle = input ? extractChannelHandle(input) : '';
+  if (handle && isChannelId(handle)) return getQuotaCost('channels');
+  const lookups = handle.startsWith('@') ? 1 : 2; // by handle, plus by legacy username
+  return (lookups + 1) * getQuotaCost('channels') + getQuotaCost('search');
+};
+
+// `input` is the channel URL/handle, when known; without it the resolve step is costed at its worst case
+export const estimateChannelCrawlCost = (
+  limit: number,
+  videoType: VideoType,
+  options: ChannelCrawlOptions = {},
+  input?: string
+): number => {
+  const { strategy = 'search', order = 'views' } = options;
+  // Type filtering discards part of every page, so budget roughly twice the pages
+  const typeFactor = videoType === 'any' ? 1 : 2;
+  const readsFullCatalog = !isFinite(limit) || (strategy === 'uploads' && order === 'views');
+
+  let pages = readsFullCatalog ? ASSUMED_FULL_CRAWL_PAGES : Math.ceil(limit / 50) * typeFactor;
+  if (strategy === 'search') pages = Math.min(pages, MAX_SEARCH_PAGES);
+
+  const listingCost = getQuotaCost(strategy === 'uploads' ? 'playlistItems' : 'search');
+  return estimateResolveChannelCost(input) + pages * (listingCost + getQuotaCost('videos'));
+};
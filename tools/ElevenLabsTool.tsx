@@ -49,6 +49,7 @@ export const ElevenLabsTool: React.FC<ElevenLabsToolProps> = ({ onBack }) => {
   const voiceDropdownRef = useRef<HTMLDivElement>(null);
   const modelDropdownRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const generateControllerRef = useRef<AbortController | null>(null);
 
   // Initialize
   useEffect(() => {
@@ -105,6 +106,8 @@ export const ElevenLabsTool: React.FC<ElevenLabsToolProps> = ({ onBack }) => {
     if (!text || !selectedVoiceId || !apiKey) return;
     setGenerating(true);
     setError(null);
+    const controller = new AbortController();
+    generateControllerRef.current = controller;
     try {
       const blob = await generateAudio(
         text, 
@@ -116,7 +119,8 @@ export const ElevenLabsTool: React.FC<ElevenLabsToolProps> = ({ onBack }) => {
             similarity_boost: similarity,
             style,
             use_speaker_boost: speakerBoost
-        }
+        },
+        controller.signal
       );
       const url = URL.createObjectURL(blob);
       const voiceName = voices.find(v => v.voice_id === selectedVoiceId)?.name || 'Unknown Voice';
@@ -132,12 +136,16 @@ export const ElevenLabsTool: React.FC<ElevenLabsToolProps> = ({ onBack }) => {
       setHistory(prev => [newItem, ...prev]);
       setActiveTab('history'); // Switch to history to see result
     } catch (e: any) {
-      setError(e.message);
+      // Cancelled by the user; nothing to report
+      if (!controller.signal.aborted) setError(e.message);
     } finally {
+      generateControllerRef.current = null;
       setGenerating(false);
     }
   };
 
+  const handleCancelGenerate = () => generateControllerRef.current?.abort();
+
   const getSelectedVoice = () => voices.find(v => v.voice_id === selectedVoiceId);
   const getSelectedModel = () => models.find(m => m.model_id === selectedModelId);
 
@@ -248,16 +256,17 @@ export const ElevenLabsTool: React.FC<ElevenLabsToolProps> = ({ onBack }) => {
                         </button>
 
                         <button 
-                            onClick={handleGenerate}
-                            disabled={generating || !text || !apiKey}
+                            onClick={generating ? handleCancelGenerate : handleGenerate}
+                            disabled={!generating && (!text || !apiKey)}
                             className={`px-6 py-2.5 rounded-full font-semibold text-sm transition-all flex items-center gap-2 ${
                                 generating 
-                                ? 'bg-slate-800 text-slate-500 cursor-not-allowed' 
+                                ? 'bg-slate-800 text-slate-300 hover:bg-slate-700' 
                                 : 'bg-white text-black hover:bg-slate-200'
                             }`}
+                            title={generating ? 'Cancel generation' : undefined}
                         >
                             {generating ? <Loader2 size={16} className="animate-spin" /> : null}
-                            {generating ? 'Generating...' : 'Generate speech'}
+                            {generating ? 'Generating... Cancel' : 'Generate speech'}
                         </button>
                     </div>
                 </div>
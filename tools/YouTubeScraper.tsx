@@ -2,9 +2,38 @@ import React, { useState, useEffect, useRef } from 'react';
 import { ApiKeyManager } from '../components/ApiKeyManager';
 import { UsageStats } from '../components/UsageStats';
 import { ResultsTable } from '../components/ResultsTable';
-import { VideoData, ScrapeMode, VideoType, TranscriptProvider } from '../types';
-import { fetchChannelVideos, fetchBatchVideos, extractVideoId, fetchTranscript } from '../services/youtubeService';
-import { Terminal, Search, Film, Layers, FileText, Activity, Loader2, Link2, Minus, Plus, AlertCircle, ChevronUp, ChevronDown, CheckCircle, ArrowLeft, TrendingUp, Sparkles } from 'lucide-react';
+import { RunHistory } from '../components/RunHistory';
+import { Watchlist } from '../components/Watchlist';
+import { VideoData, ScrapeMode, VideoType, TranscriptProvider, CrawlStrategy, ChannelSortOrder, SearchFilters, SearchDuration, SearchOrder, SavedRun, RunStatus, StatsSnapshot, ChannelProfile } from '../types';
+import { fetchChannelVideos, fetchBatchVideos, fetchPlaylistVideos, searchVideos, extractVideoId, fetchTranscript, getTranscriptFailureMessage, ProviderCredentials, TranscriptFetchResult, TranscriptOptions, estimateBatchCost, estimateChannelCrawlCost, estimatePlaylistCost, estimateSearchCost, getChannelProfiles } from '../services/youtubeService';
+import { runWithConcurrency } from '../services/concurrency';
+import { getRetryLimit, setRetryLimit, subscribeToRetries } from '../services/httpClient';
+import { DEFAULT_DAILY_QUOTA, getQuotaLedger, subscribeToQuotaLedger, QuotaLedger } from '../services/quotaService';
+import { getStatsTtlHours, setStatsTtlHours, subscribeToCacheEvents, clearCache, getCachedChannels } from '../services/cacheService';
+import { getWatchlist, getSnapshotsForVideos, subscribeToSnapshots, refreshWatchlist, watchVideos, unwatch, getWatchlistInterval, setWatchlistInterval } from '../services/snapshotService';
+import { ScoringModelId, ScoringWeights, applyScoring, getScoringModel, getStoredScoringModel, setStoredScoringModel, getStoredScoringWeights, setStoredScoringWeights } from '../services/scoringService';
+import { fetchChannelBaselines, applyChannelBaselines, estimateChannelBaselineCost } from '../services/channelBaselineService';
+import { applyChannelProfiles } from '../services/channelProfileService';
+import { fetchComparisonVideos } from '../services/channelComparisonService';
+import { createRunId, queueRunSave, getResumableVideoIds, subscribeToRunSaveErrors } from '../services/runHistoryService';
+import { TRANSCRIPT_PROVIDERS, DEFAULT_TRANSCRIPT_PROVIDER, getTranscriptProvider, isTranscriptProvider, TranscriptProviderDefinition } from '../services/transcriptProviders';
+import { Terminal, Search, Film, Layers, FileText, Activity, Loader2, Link2, Minus, Plus, AlertCircle, ChevronUp, ChevronDown, CheckCircle, ArrowLeft, TrendingUp, Sparkles, ListVideo, Compass, Languages, Cpu, Ban, RefreshCw, History, DatabaseZap, Radar, Scale, GitCompare } from 'lucide-react';
+
+// Helper: "es, hi  ar" -> ['es', 'hi', 'ar']
+const parseLanguageList = (value: string): string[] =>
+  value.split(/[\s,]+/).map(l => l.trim().toLowerCase()).filter(Boolean);
+
+// Helper: One entry per line (or comma) of a list input
+const parseInputList = (value: string): string[] =>
+  value.split(/[\n,]+/).map(line => line.trim()).filter(line => line.length > 0);
+
+// Upper bound for the numeric quantity input; "All" bypasses it entirely
+const MAX_RESULT_LIMIT = 1000;
+
+// Parallel transcript workers
+const MAX_CONCURRENCY = 8;
+const DEFAULT_CONCURRENCY = 3;
+const clampConcurrency = (val: number): number => Math.min(MAX_CONCURRENCY, Math.max(1, val || 1));
 
 interface YouTubeScraperProps {
   onBack: () => void;
@@ -60,19 +89,68 @@ export const YouTubeScraper: React.FC<YouTubeScraperProps> = ({ onBack, toolType
 
   // State
   const [youtubeApiKey, setYoutubeApiKey] = useState<string>('');
-  const [rapidApiKey, setRapidApiKey] = useState<string>('');
-  const [supadataApiKey, setSupadataApiKey] = useState<string>('');
-  const [transcriptProvider, setTranscriptProvider] = useState<TranscriptProvider>('supadata');
+  const [providerKeys, setProviderKeys] = useState<Record<string, string>>({});
+  const [transcriptProvider, setTranscriptProvider] = useState<TranscriptProvider>(DEFAULT_TRANSCRIPT_PROVIDER);
   
-  // Usage Tracking State
-  const [supadataUsage, setSupadataUsage] = useState<number>(0);
-  const [rapidApiUsage, setRapidApiUsage] = useState<number>(0);
+  // Usage Tracking State (manual counters per transcript provider)
+  const [providerUsage, setProviderUsage] = useState<Record<string, number>>({});
+  // The same counts as a ledger every fetch in the session reserves against (runs, retries, row retries)
+  const providerUsageRef = useRef<Record<string, number>>({});
+  const [failoverEnabled, setFailoverEnabled] = useState<boolean>(true);
+  const [quotaLedger, setQuotaLedger] = useState<QuotaLedger>(getQuotaLedger);
+  const [youtubeQuotaLimit, setYoutubeQuotaLimit] = useState<number>(DEFAULT_DAILY_QUOTA);
+  const [quotaWarning, setQuotaWarning] = useState<string | null>(null);
+  const [retryLimit, setRetryLimitState] = useState<number>(getRetryLimit);
+  const [statsTtlHours, setStatsTtlHoursState] = useState<number>(getStatsTtlHours);
+
+  const selectedProvider = getTranscriptProvider(transcriptProvider) || getTranscriptProvider(DEFAULT_TRANSCRIPT_PROVIDER)!;
+
+  // Selected provider first, then (with failover on) every other provider that has a key, in registry order
+  const getProviderChain = (): TranscriptProviderDefinition[] =>
+    [selectedProvider, ...(failoverEnabled ? TRANSCRIPT_PROVIDERS.filter(p => p.id !== selectedProvider.id) : [])]
+      .filter(provider => providerKeys[provider.id]);
+
+  // Every chain charges providerUsageRef, so concurrent runs and retries share one ledger. A request is
+  // charged before it is sent, checking and incrementing in one step so parallel workers cannot all
+  // spend a provider's last request. Requests that fail still count; only a reservation that never
+  // went out is given back.
+  const buildProviderChain = (): ProviderCredentials[] => {
+    const usage = providerUsageRef.current;
+    return getProviderChain().map(provider => ({
+      provider: provider.id,
+      apiKey: providerKeys[provider.id],
+      reserveCall: () => {
+        if ((usage[provider.id] || 0) >= provider.quotaLimit) return false;
+        usage[provider.id] = (usage[provider.id] || 0) + 1;
+        handleProviderUsageChange(provider.id, usage[provider.id]);
+        return true;
+      },
+      releaseCall: () => {
+        usage[provider.id] = Math.max(0, (usage[provider.id] || 0) - 1);
+        handleProviderUsageChange(provider.id, usage[provider.id]);
+      },
+    }));
+  };
+
+  // Transcript language preferences (fallback order)
+  const [transcriptLanguages, setTranscriptLanguages] = useState<string>('en');
+  const [fetchAllLanguages, setFetchAllLanguages] = useState<boolean>(false);
+  const [transcriptConcurrency, setTranscriptConcurrency] = useState<number>(DEFAULT_CONCURRENCY);
 
   // Default mode depends on toolType
   const [mode, setMode] = useState<ScrapeMode>(isTranscript ? 'single-video' : 'analyze-single');
   const [input, setInput] = useState<string>('');
   const [videoType, setVideoType] = useState<VideoType>('video');
   const [limit, setLimit] = useState<number>(5);
+  const [fetchAll, setFetchAll] = useState<boolean>(false);
+  const [forceRefresh, setForceRefresh] = useState<boolean>(false); // Skip the local cache for this run
+  const [channelBaselines, setChannelBaselines] = useState<boolean>(true); // Analysis: fetch channel medians
+  const [crawlStrategy, setCrawlStrategy] = useState<CrawlStrategy>('uploads');
+  const [sortOrder, setSortOrder] = useState<ChannelSortOrder>('views');
+  const [searchFilters, setSearchFilters] = useState<Omit<SearchFilters, 'query'>>({
+    videoDuration: 'any',
+    order: 'relevance',
+  });
   const [results, setResults] = useState<VideoData[]>([]);
   
   // Loading & Progress State
@@ -82,33 +160,133 @@ export const YouTubeScraper: React.FC<YouTubeScraperProps> = ({ onBack, toolType
   const [progress, setProgress] = useState<number>(0);
   const [logs, setLogs] = useState<string[]>([]);
   const [isConsoleOpen, setIsConsoleOpen] = useState<boolean>(false);
+
+  // Run History (persisted to IndexedDB as the run progresses; videos come from `results`)
+  const [activeRun, setActiveRun] = useState<Omit<SavedRun, 'videos'> | null>(null);
+  const [isRunHistoryOpen, setIsRunHistoryOpen] = useState<boolean>(false);
+
+  // Scoring model the analysis tool ranks by, with per-model weights
+  const [scoringModel, setScoringModel] = useState<ScoringModelId>(getStoredScoringModel);
+  const [scoringWeights, setScoringWeights] = useState<Partial<Record<ScoringModelId, ScoringWeights>>>(getStoredScoringWeights);
+
+  // Watchlist & stats snapshots (analysis tool)
+  const [watchedIds, setWatchedIds] = useState<string[]>([]);
+  const [snapshots, setSnapshots] = useState<Record<string, StatsSnapshot[]>>({});
+  const [isWatchlistOpen, setIsWatchlistOpen] = useState<boolean>(false);
+  const [isSnapshotting, setIsSnapshotting] = useState<boolean>(false);
+  const [watchlistInterval, setWatchlistIntervalState] = useState<number>(getWatchlistInterval);
+
+  // Profiles of the channels in the results (analysis tool)
+  const [channelProfiles, setChannelProfiles] = useState<Record<string, ChannelProfile>>({});
   
   // Refs
   const logsEndRef = useRef<HTMLDivElement>(null);
   const consoleContainerRef = useRef<HTMLDivElement>(null);
   const cancelledIdsRef = useRef<Set<string>>(new Set());
+  const runControllerRef = useRef<AbortController | null>(null);
+  const videoControllersRef = useRef<Map<string, AbortController>>(new Map());
+  const snapshottingRef = useRef<boolean>(false);
 
   // Load Keys
   useEffect(() => {
     const storedYtKey = localStorage.getItem('youtube_api_key');
-    const storedRapidKey = localStorage.getItem('rapid_api_key');
-    const storedSupadataKey = localStorage.getItem('supadata_api_key');
     const storedProvider = localStorage.getItem('transcript_provider');
-    const storedSupadataUsage = localStorage.getItem('supadata_usage');
-    const storedRapidUsage = localStorage.getItem('rapid_usage');
+    const storedFailover = localStorage.getItem('transcript_failover');
+    const storedQuotaLimit = localStorage.getItem('youtube_quota_limit');
+    const storedLanguages = localStorage.getItem('transcript_languages');
+    const storedAllLanguages = localStorage.getItem('transcript_all_languages');
+    const storedConcurrency = localStorage.getItem('transcript_concurrency');
     
     if (storedYtKey) setYoutubeApiKey(storedYtKey);
-    if (storedRapidKey) setRapidApiKey(storedRapidKey);
-    if (storedSupadataKey) setSupadataApiKey(storedSupadataKey);
-    if (storedProvider === 'rapid-api' || storedProvider === 'supadata') {
-        setTranscriptProvider(storedProvider as TranscriptProvider);
-    }
-    if (storedSupadataUsage) setSupadataUsage(parseInt(storedSupadataUsage));
-    if (storedRapidUsage) setRapidApiUsage(parseInt(storedRapidUsage));
+    if (isTranscriptProvider(storedProvider)) setTranscriptProvider(storedProvider);
+    if (storedFailover !== null) setFailoverEnabled(storedFailover === 'true');
+    const storedKeys: Record<string, string> = {};
+    const storedUsage: Record<string, number> = {};
+    TRANSCRIPT_PROVIDERS.forEach(provider => {
+        const key = localStorage.getItem(provider.keyStorageKey);
+        const usage = localStorage.getItem(provider.usageStorageKey);
+        if (key) storedKeys[provider.id] = key;
+        if (usage) storedUsage[provider.id] = parseInt(usage) || 0;
+    });
+    setProviderKeys(storedKeys);
+    setProviderUsage(storedUsage);
+    Object.assign(providerUsageRef.current, storedUsage);
+    if (storedQuotaLimit) setYoutubeQuotaLimit(parseInt(storedQuotaLimit) || DEFAULT_DAILY_QUOTA);
+    if (storedLanguages !== null) setTranscriptLanguages(storedLanguages);
+    if (storedAllLanguages) setFetchAllLanguages(storedAllLanguages === 'true');
+    if (storedConcurrency) setTranscriptConcurrency(clampConcurrency(parseInt(storedConcurrency)));
   }, []);
 
+  // Keep the YouTube quota ledger live. The interval picks up the midnight Pacific rollover.
+  useEffect(() => {
+    const unsubscribe = subscribeToQuotaLedger(setQuotaLedger);
+    const timer = setInterval(() => setQuotaLedger(getQuotaLedger()), 60000);
+    return () => {
+      unsubscribe();
+      clearInterval(timer);
+    };
+  }, []);
+
+  // Surface automatic retries (see httpClient) in the run console
+  useEffect(() => subscribeToRetries(({ label, attempt, maxRetries, reason, delayMs }) => {
+    addLog(`${label}: ${reason}. Retry ${attempt}/${maxRetries} in ${(delayMs / 1000).toFixed(1)}s...`);
+  }), []);
+
+  useEffect(() => subscribeToRunSaveErrors(({ message }) => {
+    addLog(`WARNING: Could not save this run to history (${message}). Export the results before leaving the page.`);
+  }), []);
+
+  useEffect(() => subscribeToCacheEvents(event => {
+    if (event.type === 'unavailable') {
+      addLog(`Cache unavailable (${event.message}). Everything is fetched from the network.`);
+    } else {
+      addLog(`Cache: ${event.hits}/${event.total} video details served from cache (no quota used).`);
+    }
+  }), []);
+
+  // Snapshots of the videos on screen, reloaded whenever a new snapshot is stored
+  const resultIdsKey = results.map(v => v.id).join(',');
+  useEffect(() => {
+    if (isTranscript) return;
+    const videoIds = resultIdsKey ? resultIdsKey.split(',') : [];
+    const load = () => Promise.all([getWatchlist(), getSnapshotsForVideos(videoIds)])
+      .then(([list, byVideo]) => {
+        setWatchedIds(list.map(entry => entry.id));
+        setSnapshots(byVideo);
+      })
+      .catch((error: any) => addLog(`Could not load snapshots: ${error?.message || error}`));
+    load();
+    return subscribeToSnapshots(load);
+  }, [isTranscript, resultIdsKey]);
+
+  // Channel profiles for results that came without them (reopened runs), from the local cache only
+  const resultChannelsKey = Array.from(new Set(results.map(v => v.channelId).filter(Boolean))).join(',');
+  useEffect(() => {
+    if (isTranscript || !resultChannelsKey) return;
+    const missingIds = resultChannelsKey.split(',').filter(id => !channelProfiles[id]);
+    if (missingIds.length === 0) return;
+    getCachedChannels(missingIds, true)
+      .then(found => {
+        if (found.size > 0) setChannelProfiles(prev => ({ ...prev, ...Object.fromEntries(found) }));
+      });
+  }, [isTranscript, resultChannelsKey]);
+
+  // Re-snapshot the watchlist on a timer while the tab is open
+  useEffect(() => {
+    if (isTranscript || watchlistInterval === 0 || !youtubeApiKey) return;
+    const timer = setInterval(handleSnapshotWatchlist, watchlistInterval * 60 * 1000);
+    return () => clearInterval(timer);
+  }, [isTranscript, watchlistInterval, youtubeApiKey]);
+
+  // Save the active run whenever its videos or status change
+  useEffect(() => {
+    if (!activeRun) return;
+    queueRunSave({ ...activeRun, videos: results, updatedAt: new Date().toISOString() });
+  }, [activeRun, results]);
+
   // Reset state when toolType changes
   useEffect(() => {
+      setActiveRun(null);
       setInput('');
       setResults([]);
       setLogs([]);
@@ -123,26 +301,57 @@ export const YouTubeScraper: React.FC<YouTubeScraperProps> = ({ onBack, toolType
     setYoutubeApiKey(key);
     localStorage.setItem('youtube_api_key', key);
   };
-  const handleRapidKeyChange = (key: string) => {
-    setRapidApiKey(key);
-    localStorage.setItem('rapid_api_key', key);
-  };
-  const handleSupadataKeyChange = (key: string) => {
-    setSupadataApiKey(key);
-    localStorage.setItem('supadata_api_key', key);
+  const handleProviderKeyChange = (provider: TranscriptProvider, key: string) => {
+    const definition = getTranscriptProvider(provider);
+    if (!definition) return;
+    setProviderKeys(prev => ({ ...prev, [provider]: key }));
+    localStorage.setItem(definition.keyStorageKey, key);
   };
   const handleProviderChange = (provider: TranscriptProvider) => {
       setTranscriptProvider(provider);
       localStorage.setItem('transcript_provider', provider);
   };
-  const handleSupadataUsageChange = (val: number) => {
-      setSupadataUsage(val);
-      localStorage.setItem('supadata_usage', val.toString());
+  const handleRetryLimitChange = (val: number) => {
+      setRetryLimit(val);
+      setRetryLimitState(getRetryLimit());
+  };
+  const handleWatchlistIntervalChange = (minutes: number) => {
+      setWatchlistInterval(minutes);
+      setWatchlistIntervalState(getWatchlistInterval());
+  };
+  const handleStatsTtlChange = (val: number) => {
+      setStatsTtlHours(val);
+      setStatsTtlHoursState(getStatsTtlHours());
+  };
+  const handleFailoverChange = (val: boolean) => {
+      setFailoverEnabled(val);
+      localStorage.setItem('transcript_failover', val.toString());
+  };
+  const handleProviderUsageChange = (provider: TranscriptProvider, val: number) => {
+      const definition = getTranscriptProvider(provider);
+      if (!definition) return;
+      providerUsageRef.current[provider] = val;
+      setProviderUsage(prev => ({ ...prev, [provider]: val }));
+      localStorage.setItem(definition.usageStorageKey, val.toString());
   };
-  const handleRapidUsageChange = (val: number) => {
-      setRapidApiUsage(val);
-      localStorage.setItem('rapid_usage', val.toString());
+  const handleQuotaLimitChange = (val: number) => {
+      setYoutubeQuotaLimit(val);
+      localStorage.setItem('youtube_quota_limit', val.toString());
   };
+  const handleLanguagesChange = (val: string) => {
+      setTranscriptLanguages(val);
+      localStorage.setItem('transcript_languages', val);
+  };
+  const handleAllLanguagesChange = (val: boolean) => {
+      setFetchAllLanguages(val);
+      localStorage.setItem('transcript_all_languages', val.toString());
+  };
+  const handleConcurrencyChange = (val: number) => {
+      const workers = clampConcurrency(val);
+      setTranscriptConcurrency(workers);
+      localStorage.setItem('transcript_concurrency', workers.toString());
+  };
+  const transcriptOptions = { languages: parseLanguageList(transcriptLanguages), allLanguages: fetchAllLanguages, forceRefresh };
 
   // Console Logic
   useEffect(() => {
@@ -155,40 +364,197 @@ export const YouTubeScraper: React.FC<YouTubeScraperProps> = ({ onBack, toolType
   const addLog = (message: string) => setLogs(prev => [...prev, `[${new Date().toLocaleTimeString()}] ${message}`]);
 
   // Actions
+  // Helper: Per-video controller, so one video can be cancelled without touching the rest.
+  // Aborting `parentSignal` (the whole run) aborts it too. Call `release` once the fetch settles.
+  const createVideoController = (videoId: string, parentSignal?: AbortSignal) => {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    parentSignal?.addEventListener('abort', abort, { once: true });
+    videoControllersRef.current.set(videoId, controller);
+    return {
+      signal: controller.signal,
+      release: () => {
+        parentSignal?.removeEventListener('abort', abort);
+        if (videoControllersRef.current.get(videoId) === controller) videoControllersRef.current.delete(videoId);
+      },
+    };
+  };
+
   const handleCancelVideo = (videoId: string) => {
     cancelledIdsRef.current.add(videoId);
-    setResults(prev => prev.map(v => v.id === videoId ? { ...v, transcript: 'Cancelled' } : v));
+    videoControllersRef.current.get(videoId)?.abort();
+    setResults(prev => prev.map(v => v.id === videoId ? { ...v, transcriptStatus: { state: 'cancelled' } } : v));
     addLog(`Cancelled transcription for video ID: ${videoId}`);
   };
 
+  const handleCancelRun = () => {
+    const controller = runControllerRef.current;
+    if (!controller || controller.signal.aborted) return;
+    controller.abort();
+    addLog("Cancelling run: aborting all in-flight requests...");
+  };
+
+  const logTranscriptOutcome = (itemLabel: string, { status, language, tracks, provider, fromCache, calls }: TranscriptFetchResult) => {
+    if (status.state === 'unavailable') {
+      addLog(`${itemLabel}: Unavailable - ${status.reason}`);
+    } else if (status.state === 'failed') {
+      addLog(`${itemLabel}: Failed [${status.error.category || 'unknown'}${status.error.code ? ` ${status.error.code}` : ''}] - ${status.error.message}`);
+    } else if (status.state === 'success') {
+      const servedBy = fromCache ? ' from cache' : provider && provider !== selectedProvider.id ? ` via ${getTranscriptProvider(provider)?.shortName || provider}` : '';
+      const requests = Object.values(calls).reduce((sum, count) => sum + count, 0);
+      addLog(`${itemLabel}: Success${tracks ? ` (${tracks.map(t => t.language).join(', ')})` : language ? ` (${language})` : ''}${servedBy}${requests > 1 ? ` · ${requests} requests` : ''}`);
+    }
+  };
+
+  // Re-fetch transcripts for videos already in the results, through the same worker pool as a run
+  const retryTranscripts = async (videoIds: string[], runSignal?: AbortSignal, options: TranscriptOptions = transcriptOptions) => {
+    let completed = 0;
+    setResults(prev => prev.map(v => videoIds.includes(v.id) ? { ...v, transcript: '', transcriptStatus: { state: 'pending' } } : v));
+
+    await runWithConcurrency(videoIds, transcriptConcurrency, async (videoId, i) => {
+      const { signal, release } = createVideoController(videoId, runSignal);
+      const result = await fetchTranscript(videoId, buildProviderChain(), { ...options, signal })
+        .finally(release);
+      const { text: transcript, segments, language, tracks, provider, status } = result;
+
+      if (videoIds.length > 1) logTranscriptOutcome(`Retry ${i + 1}/${videoIds.length}`, result);
+      setResults(prev => prev.map(v => v.id === videoId ? { ...v, transcript, transcriptStatus: status, transcriptSegments: segments, transcriptLanguage: language, transcriptTracks: tracks, transcriptProvider: provider } : v));
+      completed++;
+      setProgress(Math.floor((completed / videoIds.length) * 100));
+    });
+  };
+
+  const updateActiveRun = (status: RunStatus, error?: string) =>
+    setActiveRun(prev => prev && { ...prev, status, error });
+
   const handleRetryVideo = async (videoId: string) => {
     if (loading) return; 
-    const videoIndex = results.findIndex(v => v.id === videoId);
-    if (videoIndex === -1) return;
-    const videoToRetry = results[videoIndex];
-    const currentApiKey = transcriptProvider === 'rapid-api' ? rapidApiKey : supadataApiKey;
-    const tempResults = [...results];
-    tempResults[videoIndex] = { ...videoToRetry, transcript: '' }; 
-    setResults(tempResults);
+    if (!results.some(v => v.id === videoId)) return;
+    await retryTranscripts([videoId]);
+  };
 
+  // Cancellable batch of re-fetches (Retry All Failed, Resume), tracked as the active run's status
+  const runRetryBatch = async (videoIds: string[], startMessage: string, options: TranscriptOptions = transcriptOptions) => {
+    const runController = new AbortController();
+    runControllerRef.current = runController;
+    setLoading(true);
+    setProgress(0);
+    setIsConsoleOpen(true);
+    updateActiveRun('running');
+    addLog(startMessage);
     try {
-        let transcript = await fetchTranscript(videoId, transcriptProvider, currentApiKey);
-        if (!transcript.startsWith("Error") && !transcript.startsWith("API Error") && !transcript.startsWith("Request Failed")) {
-             let currentUsageCount = transcriptProvider === 'supadata' ? supadataUsage : rapidApiUsage;
-             currentUsageCount++;
-             if (transcriptProvider === 'supadata') handleSupadataUsageChange(Math.min(100, currentUsageCount));
-             else handleRapidUsageChange(Math.min(20, currentUsageCount));
-        }
-        setResults(prev => prev.map(v => v.id === videoId ? { ...v, transcript } : v));
+      await retryTranscripts(videoIds, runController.signal, options);
+      addLog(runController.signal.aborted ? "Retry run cancelled." : "Retry run complete.");
+      updateActiveRun(runController.signal.aborted ? 'cancelled' : 'completed');
+    } finally {
+      runControllerRef.current = null;
+      setLoading(false);
+    }
+  };
+
+  const handleRetryFailed = async () => {
+    if (loading) return;
+    const videoIds = failedVideos.map(v => v.id);
+    if (videoIds.length === 0) return;
+    await runRetryBatch(videoIds, `Retrying ${videoIds.length} failed transcript(s)...`);
+  };
+
+  // Load a saved run back into the form and results, as if it had just finished
+  const openRun = (run: SavedRun) => {
+    const { videos, ...meta } = run;
+    const { settings } = run;
+    // A run still marked running was interrupted; once reopened it is no longer in flight
+    setActiveRun({ ...meta, status: meta.status === 'running' ? 'cancelled' : meta.status });
+    setMode(settings.mode);
+    setInput(settings.input);
+    setLimit(settings.limit);
+    setVideoType(settings.videoType);
+    setFetchAll(!!settings.fetchAll);
+    setForceRefresh(!!settings.forceRefresh);
+    if (settings.channelBaselines !== undefined) setChannelBaselines(settings.channelBaselines);
+    if (settings.crawlStrategy) setCrawlStrategy(settings.crawlStrategy);
+    if (settings.sortOrder) setSortOrder(settings.sortOrder);
+    if (settings.searchFilters) setSearchFilters(settings.searchFilters);
+    if (settings.transcriptLanguages) setTranscriptLanguages(settings.transcriptLanguages.join(', '));
+    if (settings.allLanguages !== undefined) setFetchAllLanguages(settings.allLanguages);
+    cancelledIdsRef.current.clear();
+    setResults(videos);
+    setLogs([]);
+    setError(null);
+    setQuotaWarning(null);
+    setProgress(100);
+    setIsProcessComplete(true);
+    setIsRunHistoryOpen(false);
+  };
+
+  // Reopen a saved run and fetch only the transcripts it is still missing, with the run's own language settings
+  const resumeRun = async (run: SavedRun) => {
+    if (loading) return;
+    const videoIds = getResumableVideoIds(run);
+    if (videoIds.length === 0) return;
+    openRun(run);
+    if (getProviderChain().length === 0) {
+        setError(`Please enter a ${selectedProvider.shortName} API Key in settings to resume this run.`);
+        return;
+    }
+    await runRetryBatch(videoIds, `Resuming run: fetching ${videoIds.length} remaining transcript(s)...`, {
+      languages: run.settings.transcriptLanguages || [],
+      allLanguages: !!run.settings.allLanguages,
+    });
+  };
+
+  // Re-rank the results in place when the model or its weights change; no refetch needed
+  const handleScoringChange = (modelId: ScoringModelId, weights: ScoringWeights) => {
+    const nextWeights = { ...scoringWeights, [modelId]: weights };
+    setScoringModel(modelId);
+    setScoringWeights(nextWeights);
+    setStoredScoringModel(modelId);
+    setStoredScoringWeights(nextWeights);
+    setResults(prev => applyScoring(prev, modelId, nextWeights, mode === 'analyze-playlist'));
+  };
+
+  const handleSnapshotWatchlist = async () => {
+    if (!youtubeApiKey || snapshottingRef.current) return;
+    snapshottingRef.current = true;
+    setIsSnapshotting(true);
+    try {
+      const count = await refreshWatchlist(youtubeApiKey, addLog);
+      addLog(`Watchlist snapshot saved for ${count} videos.`);
+    } catch (err: any) {
+      addLog(`ERROR: Watchlist snapshot failed - ${err.message}`);
+    } finally {
+      snapshottingRef.current = false;
+      setIsSnapshotting(false);
+    }
+  };
+
+  const handleToggleWatch = async (video: VideoData) => {
+    if (watchedIds.includes(video.id)) {
+      try {
+        await unwatch(video.id);
+      } catch (err: any) {
+        setError(err.message || "Could not remove the video from the watchlist.");
+      }
+      return;
+    }
+    if (!youtubeApiKey) {
+      setError("Please enter a YouTube Data API Key in the settings.");
+      return;
+    }
+    try {
+      await watchVideos([video], youtubeApiKey);
+      addLog(`Watching "${video.title}". Views are snapshotted with the watchlist from now on.`);
     } catch (err: any) {
-        setResults(prev => prev.map(v => v.id === videoId ? { ...v, transcript: `Error: ${err.message}` } : v));
+      setError(err.message || "Could not add the video to the watchlist.");
     }
   };
 
   const switchMode = (newMode: ScrapeMode) => {
+      setActiveRun(null);
       setMode(newMode);
       setInput('');
       setError(null);
+      setQuotaWarning(null);
       setResults([]);
       setProgress(0);
       setLogs([]);
@@ -197,7 +563,38 @@ export const YouTubeScraper: React.FC<YouTubeScraperProps> = ({ onBack, toolType
 
   const handleStartAgain = () => setIsProcessComplete(false);
 
-  const handleScrape = async (e: React.FormEvent) => {
+  // Approximate YouTube Data API units the current form would spend
+  const estimateRunQuota = (): number => {
+    return estimateMetadataQuota() + (mode.startsWith('analyze') && channelBaselines ? estimateChannelBaselineCost(estimateChannelCount()) : 0);
+  };
+
+  // Upper bound on distinct channels an analysis run compares against (one per video at most)
+  const estimateChannelCount = (): number => {
+    if (mode === 'analyze-playlist' || mode === 'analyze-single') return 1;
+    if (mode === 'analyze-multi' || mode === 'analyze-channels') return parseInputList(input).length;
+    return Math.min(fetchAll ? 50 : limit, 50);
+  };
+
+  const estimateMetadataQuota = (): number => {
+    if (mode === 'single-channel') {
+      return estimateChannelCrawlCost(fetchAll ? Infinity : limit, videoType, { strategy: crawlStrategy, order: sortOrder }, input.trim());
+    }
+    if (mode === 'playlist' || mode === 'analyze-playlist') {
+      return estimatePlaylistCost();
+    }
+    if (mode === 'keyword-search' || mode === 'analyze-search') {
+      return estimateSearchCost(fetchAll ? Infinity : limit);
+    }
+    if (mode === 'batch-videos' || mode === 'analyze-multi') {
+      return estimateBatchCost(parseInputList(input).length);
+    }
+    if (mode === 'analyze-channels') {
+      return parseInputList(input).reduce((sum, channel) => sum + estimateChannelCrawlCost(fetchAll ? Infinity : limit, 'any', { strategy: 'uploads', order: 'latest' }, channel), 0);
+    }
+    return estimateBatchCost(1);
+  };
+
+  const handleScrape = async (e: React.SyntheticEvent, ignoreQuotaWarning = false) => {
     e.preventDefault();
     if (!youtubeApiKey) {
       setError("Please enter a YouTube Data API Key in the settings.");
@@ -209,24 +606,27 @@ export const YouTubeScraper: React.FC<YouTubeScraperProps> = ({ onBack, toolType
     }
 
     if (isTranscript) {
-        if (transcriptProvider === 'rapid-api' && !rapidApiKey) {
-            setError("Please enter a RapidAPI Key in settings to use the RapidAPI service.");
-            return;
-        }
-        if (transcriptProvider === 'supadata' && !supadataApiKey) {
-            setError("Please enter a Supadata API Key in settings to use the Supadata service.");
-            return;
-        }
-        if (transcriptProvider === 'supadata' && supadataUsage >= 100) {
-            setError("Supadata usage limit (100) reached. Reset count in settings or upgrade.");
+        const chain = getProviderChain();
+        if (chain.length === 0) {
+            setError(`Please enter a ${selectedProvider.shortName} API Key in settings to use the ${selectedProvider.shortName} service.`);
             return;
         }
-        if (transcriptProvider === 'rapid-api' && rapidApiUsage >= 20) {
-            setError("RapidAPI usage limit (20) reached. Reset count in settings or upgrade.");
+        if (chain.every(provider => (providerUsage[provider.id] || 0) >= provider.quotaLimit)) {
+            setError(chain.length > 1
+              ? "Every configured transcription provider has reached its usage limit. Reset counts in settings or upgrade."
+              : `${selectedProvider.shortName} usage limit (${selectedProvider.quotaLimit}) reached. Reset count in settings or upgrade.`);
             return;
         }
     }
 
+    const estimatedUnits = estimateRunQuota();
+    const remainingUnits = Math.max(0, youtubeQuotaLimit - quotaLedger.used);
+    if (!ignoreQuotaWarning && estimatedUnits > remainingUnits) {
+        setQuotaWarning(`This run needs about ${estimatedUnits.toLocaleString()} YouTube quota units, but only ${remainingUnits.toLocaleString()} of ${youtubeQuotaLimit.toLocaleString()} remain today.`);
+        return;
+    }
+    setQuotaWarning(null);
+
     setLoading(true);
     setIsProcessComplete(false);
     setError(null);
@@ -235,8 +635,34 @@ export const YouTubeScraper: React.FC<YouTubeScraperProps> = ({ onBack, toolType
     setProgress(5);
     setIsConsoleOpen(true);
     cancelledIdsRef.current.clear();
+    const runController = new AbortController();
+    runControllerRef.current = runController;
+    const runSignal = runController.signal;
+    const startedAt = new Date().toISOString();
+    setActiveRun({
+      id: createRunId(),
+      toolType,
+      status: 'running',
+      createdAt: startedAt,
+      updatedAt: startedAt,
+      settings: {
+        mode,
+        input,
+        limit,
+        videoType,
+        crawlStrategy,
+        sortOrder,
+        fetchAll,
+        channelBaselines,
+        forceRefresh,
+        searchFilters,
+        ...(isTranscript ? { transcriptLanguages: transcriptOptions.languages, allLanguages: transcriptOptions.allLanguages } : {}),
+      },
+    });
     
     addLog("Starting process...");
+    if (forceRefresh) addLog("Force refresh: ignoring cached video details and transcripts.");
+    addLog(`Estimated YouTube quota cost: ~${estimatedUnits.toLocaleString()} units (${quotaLedger.used.toLocaleString()}/${youtubeQuotaLimit.toLocaleString()} used today).`);
 
     try {
       let metadataVideos: VideoData[] = [];
@@ -251,40 +677,65 @@ export const YouTubeScraper: React.FC<YouTubeScraperProps> = ({ onBack, toolType
       if (mode === 'single-channel') {
         addLog(`Mode: Single Channel. Target: ${input}`);
         setProgress(5);
-        metadataVideos = await fetchChannelVideos(input, limit, videoType, youtubeApiKey, onMetadataProgress);
-      } else if (mode === 'multi-channel' || mode === 'analyze-multi') {
+        addLog(`Crawl strategy: ${crawlStrategy === 'uploads' ? 'Uploads playlist' : 'Search'}, order: ${sortOrder === 'views' ? 'Top by views' : 'Latest'}.`);
+        metadataVideos = await fetchChannelVideos(input, fetchAll ? Infinity : limit, videoType, youtubeApiKey, onMetadataProgress, {
+          strategy: crawlStrategy,
+          order: sortOrder,
+          signal: runSignal,
+          forceRefresh,
+        });
+      } else if (mode === 'playlist' || mode === 'analyze-playlist') {
+        addLog(`Mode: Playlist. Target: ${input}`);
+        setProgress(5);
+        metadataVideos = await fetchPlaylistVideos(input, youtubeApiKey, onMetadataProgress, runSignal, forceRefresh);
+      } else if (mode === 'keyword-search' || mode === 'analyze-search') {
+        addLog(`Mode: Keyword Search. Query: ${input}`);
+        setProgress(5);
+        metadataVideos = await searchVideos({ ...searchFilters, query: input }, fetchAll ? Infinity : limit, youtubeApiKey, onMetadataProgress, runSignal, forceRefresh);
+      } else if (mode === 'batch-videos' || mode === 'analyze-multi') {
         addLog("Mode: Batch processing.");
-        const urls = input.split(/[\n,]+/).map(u => u.trim()).filter(u => u.length > 0);
+        const urls = parseInputList(input);
         if (urls.length === 0) throw new Error("No URLs provided.");
         addLog(`Found ${urls.length} raw input lines.`);
         setProgress(5);
-        metadataVideos = await fetchBatchVideos(urls, youtubeApiKey, onMetadataProgress);
+        metadataVideos = await fetchBatchVideos(urls, youtubeApiKey, onMetadataProgress, runSignal, forceRefresh);
+      } else if (mode === 'analyze-channels') {
+        const channels = parseInputList(input);
+        if (channels.length === 0) throw new Error("No channels provided.");
+        addLog(`Mode: Channel Comparison. ${channels.length} channel(s), latest ${fetchAll ? 'all' : limit} uploads each.`);
+        setProgress(5);
+        metadataVideos = await fetchComparisonVideos(channels, fetchAll ? Infinity : limit, youtubeApiKey, onMetadataProgress, runSignal, forceRefresh);
       } else if (mode === 'single-video' || mode === 'analyze-single') {
         addLog("Mode: Single Video.");
         const id = extractVideoId(input);
         if (!id) throw new Error("Invalid Video URL format.");
         addLog(`Video ID extracted: ${id}`);
         setProgress(5);
-        metadataVideos = await fetchBatchVideos([input], youtubeApiKey, (msg) => addLog(msg));
+        metadataVideos = await fetchBatchVideos([input], youtubeApiKey, (msg) => addLog(msg), runSignal, forceRefresh);
       }
 
       if (metadataVideos.length === 0) throw new Error("No videos found matching your criteria.");
 
-      if (mode === 'analyze-multi' || mode === 'analyze-single') {
-         addLog("Analyzing video metrics...");
-         const now = new Date();
-         metadataVideos = metadataVideos.map(video => {
-            const published = new Date(video.publishedAt);
-            const hoursAge = Math.max(1, (now.getTime() - published.getTime()) / (1000 * 60 * 60));
-            const views = parseInt(video.viewCount) || 0;
-            const likes = parseInt(video.likeCount || '0') || 0;
-            const comments = parseInt(video.commentCount || '0') || 0;
-            const engagementWeight = (likes * 5) + (comments * 10);
-            const rawScore = (views + engagementWeight) / hoursAge;
-            return { ...video, viralityScore: rawScore };
-         });
-         metadataVideos.sort((a, b) => (b.viralityScore || 0) - (a.viralityScore || 0));
-         addLog("Analysis complete. Videos ranked by viral potential.");
+      if (mode.startsWith('analyze')) {
+         // Channel profiles feed the channel cards and the per-subscriber metrics (1 unit per 50 channels)
+         const channelIds = Array.from(new Set(metadataVideos.map(video => video.channelId).filter(Boolean))) as string[];
+         addLog(`Fetching channel profiles for ${channelIds.length} channel(s)...`);
+         const profiles = await getChannelProfiles(channelIds, youtubeApiKey, runSignal, forceRefresh);
+         setChannelProfiles(profiles);
+         metadataVideos = applyChannelProfiles(metadataVideos, profiles);
+
+         if (channelBaselines) {
+           addLog(`Fetching recent-upload baselines for ${channelIds.length} channel(s)...`);
+           const baselines = await fetchChannelBaselines(channelIds, youtubeApiKey, addLog, runSignal, forceRefresh);
+           metadataVideos = applyChannelBaselines(metadataVideos, baselines);
+         }
+
+         addLog(`Analyzing video metrics (model: ${getScoringModel(scoringModel).name})...`);
+         // Playlists are curated sequences: keep their order and only annotate scores
+         metadataVideos = applyScoring(metadataVideos, scoringModel, scoringWeights, mode === 'analyze-playlist');
+         addLog(mode === 'analyze-playlist'
+           ? "Analysis complete. Videos kept in playlist order."
+           : `Analysis complete. Videos ranked by ${getScoringModel(scoringModel).name}.`);
       }
 
       addLog(`Data acquired for ${metadataVideos.length} videos.`);
@@ -292,73 +743,82 @@ export const YouTubeScraper: React.FC<YouTubeScraperProps> = ({ onBack, toolType
 
       if (isTranscript) {
           setProgress(10);
-          const currentApiKey = transcriptProvider === 'rapid-api' ? rapidApiKey : supadataApiKey;
-          let currentUsageCount = transcriptProvider === 'supadata' ? supadataUsage : rapidApiUsage;
-          const updatedVideos = [...metadataVideos];
+          const updatedVideos: VideoData[] = metadataVideos.map(video => ({ ...video, transcriptStatus: { state: 'pending' } }));
+          setResults([...updatedVideos]);
+          let completed = 0;
+
+          // Workers finish out of order, so progress counts completions rather than indexes
+          const finishVideo = (index: number, video: VideoData) => {
+            updatedVideos[index] = video;
+            setResults([...updatedVideos]);
+            completed++;
+            setProgress(10 + Math.floor((completed / updatedVideos.length) * 90));
+          };
+
+          if (transcriptConcurrency > 1) addLog(`Fetching transcripts with ${transcriptConcurrency} parallel workers...`);
 
-          for (let i = 0; i < updatedVideos.length; i++) {
-            const video = updatedVideos[i];
+          // Provider rate limits (see waitForRateLimit) space out the actual requests
+          await runWithConcurrency(updatedVideos, transcriptConcurrency, async (video, i) => {
             const itemLabel = `Video ${i + 1}/${updatedVideos.length}`;
 
-            if (cancelledIdsRef.current.has(video.id)) {
-                updatedVideos[i] = { ...video, transcript: 'Cancelled' };
-                setResults([...updatedVideos]); 
+            if (cancelledIdsRef.current.has(video.id) || runSignal.aborted) {
                 addLog(`${itemLabel}: Skipped (Cancelled)`);
-                setProgress(10 + Math.floor(((i + 1) / updatedVideos.length) * 90));
-                continue;
+                finishVideo(i, { ...video, transcriptStatus: { state: 'cancelled' } });
+                return;
             }
 
             addLog(`${itemLabel}: Fetching transcript...`);
-            await new Promise(r => setTimeout(r, 500));
-            let transcript = await fetchTranscript(video.id, transcriptProvider, currentApiKey);
-            if (typeof transcript !== 'string') transcript = String(transcript || '');
+            const { signal, release } = createVideoController(video.id, runSignal);
+            const { text: transcript, segments, language, tracks, provider, status, fromCache, calls } = await fetchTranscript(video.id, buildProviderChain(), { ...transcriptOptions, signal })
+              .finally(release);
             
-            if (cancelledIdsRef.current.has(video.id)) {
-                updatedVideos[i] = { ...video, transcript: 'Cancelled' };
-                setResults([...updatedVideos]); 
+            if (cancelledIdsRef.current.has(video.id) || signal.aborted || status.state === 'cancelled') {
                 addLog(`${itemLabel}: Result discarded (Cancelled)`);
-                setProgress(10 + Math.floor(((i + 1) / updatedVideos.length) * 90));
-                continue;
+                finishVideo(i, { ...video, transcriptStatus: { state: 'cancelled' } });
+                return;
             }
 
-            const isError = transcript.startsWith("Error") || transcript.startsWith("API Error") || transcript.startsWith("Request Failed");
-            if (isError) {
-              addLog(`${itemLabel}: Failed - ${transcript.replace(/^Error:\s*/, '')}`);
-            } else {
-              addLog(`${itemLabel}: Success`);
-              currentUsageCount++;
-              if (transcriptProvider === 'supadata') handleSupadataUsageChange(Math.min(100, currentUsageCount));
-              else handleRapidUsageChange(Math.min(20, currentUsageCount));
-            }
+            logTranscriptOutcome(itemLabel, { text: transcript, segments, language, tracks, provider, status, fromCache, calls });
 
-            updatedVideos[i] = { ...video, transcript: transcript };
-            setResults([...updatedVideos]);
-            setProgress(10 + Math.floor(((i + 1) / updatedVideos.length) * 90));
-          }
+            finishVideo(i, { ...video, transcript: transcript, transcriptStatus: status, transcriptSegments: segments, transcriptLanguage: language, transcriptTracks: tracks, transcriptProvider: provider });
+          });
       } else {
           setProgress(100);
       }
 
-      addLog(`Success! Process complete.`);
+      updateActiveRun(runSignal.aborted ? 'cancelled' : 'completed');
+      if (runSignal.aborted) {
+        addLog(`Run cancelled. Kept ${metadataVideos.length} videos fetched so far. YouTube quota used today: ${getQuotaLedger().used.toLocaleString()} units.`);
+      } else {
+        addLog(`Success! Process complete. YouTube quota used today: ${getQuotaLedger().used.toLocaleString()} units.`);
+      }
       setIsProcessComplete(true);
       setIsConsoleOpen(false);
     } catch (err: any) {
-      setError(err.message || "An unexpected error occurred.");
-      addLog(`ERROR: ${err.message}`);
+      if (runSignal.aborted) {
+        updateActiveRun('cancelled');
+        addLog("Run cancelled before metadata finished loading.");
+      } else {
+        updateActiveRun('failed', err.message || "An unexpected error occurred.");
+        setError(err.message || "An unexpected error occurred.");
+        addLog(`ERROR: ${err.message}`);
+      }
       setProgress(0);
     } finally {
+      runControllerRef.current = null;
       setLoading(false);
     }
   };
 
   const handleLimitChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const val = parseInt(e.target.value);
-    if (!isNaN(val)) setLimit(Math.min(50, Math.max(1, val)));
+    if (!isNaN(val)) setLimit(Math.min(MAX_RESULT_LIMIT, Math.max(1, val)));
     else setLimit(1);
   };
-  const incrementLimit = () => setLimit(prev => Math.min(50, prev + 1));
+  const incrementLimit = () => setLimit(prev => Math.min(MAX_RESULT_LIMIT, prev + 1));
   const decrementLimit = () => setLimit(prev => Math.max(1, prev - 1));
-  const linkCount = (mode === 'multi-channel' || mode === 'analyze-multi') ? input.split(/[\n,]+/).filter(line => line.trim().length > 0).length : 0;
+  const isListInput = mode === 'batch-videos' || mode === 'analyze-multi' || mode === 'analyze-channels';
+  const linkCount = isListInput ? parseInputList(input).length : 0;
   
   const getTabClass = (targetMode: ScrapeMode) => {
       const isActive = mode === targetMode;
@@ -369,9 +829,54 @@ export const YouTubeScraper: React.FC<YouTubeScraperProps> = ({ onBack, toolType
   };
 
   const isInputValid = input.trim().length > 0;
-  const successful = results.filter(r => r.transcript && !r.transcript.startsWith("Error") && !r.transcript.startsWith("API Error") && r.transcript !== "Cancelled").length;
-  const failedVideos = results.filter(r => r.transcript && (r.transcript.startsWith("Error") || r.transcript.startsWith("API Error")));
+  const isSearchMode = mode === 'keyword-search' || mode === 'analyze-search';
+
+  // Shared by the channel and search option panels
+  const quantityControl = (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-slate-400">Quantity {fetchAll ? '(All Results)' : `(Max ${MAX_RESULT_LIMIT})`}</label>
+        <button
+          type="button"
+          onClick={() => setFetchAll(prev => !prev)}
+          className={`px-3 py-1 rounded-lg text-xs font-semibold transition-all cursor-pointer ${fetchAll ? theme.activeTypeBtn : 'bg-slate-900/80 border border-slate-800/80 text-slate-400 hover:text-slate-200 hover:bg-slate-800'}`}
+          title="Walk every available page"
+        >
+          All
+        </button>
+      </div>
+      <div className={`flex items-center justify-between bg-slate-900/80 border border-slate-800/80 rounded-xl overflow-hidden h-[46px] w-full shadow-inner ${fetchAll ? 'opacity-50' : ''}`}>
+        <button 
+          type="button"
+          onClick={decrementLimit}
+          disabled={fetchAll}
+          className="h-full w-14 flex items-center justify-center text-slate-400 hover:text-white hover:bg-slate-800 active:bg-slate-700 transition-colors cursor-pointer border-r border-slate-800 disabled:cursor-not-allowed"
+        >
+          <Minus size={18} />
+        </button>
+        <input
+          type={fetchAll ? 'text' : 'number'}
+          value={fetchAll ? 'All' : limit}
+          onChange={handleLimitChange}
+          disabled={fetchAll}
+          className="flex-1 bg-transparent text-center font-mono text-lg text-slate-200 font-bold focus:outline-none [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+        />
+        <button 
+          type="button"
+          onClick={incrementLimit}
+          disabled={fetchAll}
+          className="h-full w-14 flex items-center justify-center text-slate-400 hover:text-white hover:bg-slate-800 active:bg-slate-700 transition-colors cursor-pointer border-l border-slate-800 disabled:cursor-not-allowed"
+        >
+          <Plus size={18} />
+        </button>
+      </div>
+    </div>
+  );
+  const successful = results.filter(r => r.transcriptStatus?.state === 'success').length;
+  // Only failed fetches are worth retrying; unavailable videos have no captions to fetch
+  const failedVideos = results.filter(r => r.transcriptStatus?.state === 'failed');
   const failed = failedVideos.length;
+  const unsuccessfulVideos = results.filter(r => r.transcriptStatus?.state === 'failed' || r.transcriptStatus?.state === 'unavailable');
 
   return (
     <div className="w-full animate-fade-in">
@@ -400,19 +905,41 @@ export const YouTubeScraper: React.FC<YouTubeScraperProps> = ({ onBack, toolType
            
            {/* Right: Usage & Config */}
            <div className="flex items-center gap-3">
+              <button
+                onClick={() => setIsRunHistoryOpen(true)}
+                className="p-2.5 rounded-xl bg-slate-800/50 hover:bg-slate-800 text-slate-400 hover:text-white border border-slate-700 hover:border-slate-600 transition-all duration-300 cursor-pointer hover:scale-105 active:scale-95"
+                title="Run History"
+              >
+                  <History size={20} />
+              </button>
+              {!isTranscript && (
+                <button
+                  onClick={() => setIsWatchlistOpen(true)}
+                  className="p-2.5 rounded-xl bg-slate-800/50 hover:bg-slate-800 text-slate-400 hover:text-white border border-slate-700 hover:border-slate-600 transition-all duration-300 cursor-pointer hover:scale-105 active:scale-95"
+                  title="Watchlist"
+                >
+                    <Radar size={20} className={isSnapshotting ? 'animate-pulse text-emerald-400' : ''} />
+                </button>
+              )}
               <ApiKeyManager 
                 youtubeApiKey={youtubeApiKey} 
                 setYoutubeApiKey={handleYoutubeKeyChange}
-                rapidApiKey={rapidApiKey}
-                setRapidApiKey={handleRapidKeyChange}
-                supadataApiKey={supadataApiKey}
-                setSupadataApiKey={handleSupadataKeyChange}
+                providerKeys={providerKeys}
+                setProviderKey={handleProviderKeyChange}
                 transcriptProvider={transcriptProvider}
                 setTranscriptProvider={handleProviderChange}
-                supadataUsage={supadataUsage}
-                setSupadataUsage={handleSupadataUsageChange}
-                rapidApiUsage={rapidApiUsage}
-                setRapidApiUsage={handleRapidUsageChange}
+                providerUsage={providerUsage}
+                setProviderUsage={handleProviderUsageChange}
+                failoverEnabled={failoverEnabled}
+                setFailoverEnabled={handleFailoverChange}
+                retryLimit={retryLimit}
+                setRetryLimit={handleRetryLimitChange}
+                statsTtlHours={statsTtlHours}
+                setStatsTtlHours={handleStatsTtlChange}
+                onClearCache={clearCache}
+                youtubeQuotaUsed={quotaLedger.used}
+                youtubeQuotaLimit={youtubeQuotaLimit}
+                setYoutubeQuotaLimit={handleQuotaLimitChange}
               />
            </div>
         </div>
@@ -428,7 +955,7 @@ export const YouTubeScraper: React.FC<YouTubeScraperProps> = ({ onBack, toolType
           <div className="mb-8 relative z-10 animate-fade-in">
               {isTranscript && (
                   <>
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-3">
                     <button onClick={() => switchMode('single-video')} className={getTabClass('single-video')}>
                       <div className={`p-2 rounded-lg ${mode === 'single-video' ? 'bg-white/20' : 'bg-slate-700/50 group-hover:bg-slate-700'}`}>
                         <Search size={18} />
@@ -438,8 +965,8 @@ export const YouTubeScraper: React.FC<YouTubeScraperProps> = ({ onBack, toolType
                         <div className="text-[10px] opacity-75">Get transcript</div>
                       </div>
                     </button>
-                    <button onClick={() => switchMode('multi-channel')} className={getTabClass('multi-channel')}>
-                       <div className={`p-2 rounded-lg ${mode === 'multi-channel' ? 'bg-white/20' : 'bg-slate-700/50 group-hover:bg-slate-700'}`}>
+                    <button onClick={() => switchMode('batch-videos')} className={getTabClass('batch-videos')}>
+                       <div className={`p-2 rounded-lg ${mode === 'batch-videos' ? 'bg-white/20' : 'bg-slate-700/50 group-hover:bg-slate-700'}`}>
                          <Film size={18} />
                        </div>
                       <div className="text-left">
@@ -456,18 +983,38 @@ export const YouTubeScraper: React.FC<YouTubeScraperProps> = ({ onBack, toolType
                         <div className="text-[10px] opacity-75">Top videos</div>
                       </div>
                     </button>
+                    <button onClick={() => switchMode('playlist')} className={getTabClass('playlist')}>
+                      <div className={`p-2 rounded-lg ${mode === 'playlist' ? 'bg-white/20' : 'bg-slate-700/50 group-hover:bg-slate-700'}`}>
+                        <ListVideo size={18} />
+                      </div>
+                      <div className="text-left">
+                        <div className="font-bold text-sm">Playlist</div>
+                        <div className="text-[10px] opacity-75">Every item, in order</div>
+                      </div>
+                    </button>
+                    <button onClick={() => switchMode('keyword-search')} className={getTabClass('keyword-search')}>
+                      <div className={`p-2 rounded-lg ${mode === 'keyword-search' ? 'bg-white/20' : 'bg-slate-700/50 group-hover:bg-slate-700'}`}>
+                        <Compass size={18} />
+                      </div>
+                      <div className="text-left">
+                        <div className="font-bold text-sm">Keyword Search</div>
+                        <div className="text-[10px] opacity-75">Start from a topic</div>
+                      </div>
+                    </button>
                   </div>
                   <div className="max-w-4xl mx-auto px-1">
                      <UsageStats 
-                        usage={transcriptProvider === 'supadata' ? supadataUsage : rapidApiUsage}
+                        usage={providerUsage[transcriptProvider] || 0}
                         provider={transcriptProvider}
+                        youtubeUsed={quotaLedger.used}
+                        youtubeLimit={youtubeQuotaLimit}
                      />
                   </div>
                   </>
               )}
 
               {!isTranscript && (
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3 max-w-3xl mx-auto">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3 max-w-4xl mx-auto">
                         <button onClick={() => switchMode('analyze-single')} className={getTabClass('analyze-single')}>
                             <div className={`p-2 rounded-lg ${mode === 'analyze-single' ? 'bg-white/20' : 'bg-slate-700/50 group-hover:bg-slate-700'}`}>
                                 <Activity size={18} />
@@ -486,6 +1033,36 @@ export const YouTubeScraper: React.FC<YouTubeScraperProps> = ({ onBack, toolType
                                 <div className="text-[10px] opacity-75">Rank by viral potential</div>
                             </div>
                         </button>
+                        <button onClick={() => switchMode('analyze-playlist')} className={getTabClass('analyze-playlist')}>
+                            <div className={`p-2 rounded-lg ${mode === 'analyze-playlist' ? 'bg-white/20' : 'bg-slate-700/50 group-hover:bg-slate-700'}`}>
+                                <ListVideo size={18} />
+                            </div>
+                            <div className="text-left">
+                                <div className="font-bold text-sm">Playlist Analyzer</div>
+                                <div className="text-[10px] opacity-75">Metrics in playlist order</div>
+                            </div>
+                        </button>
+                        <button onClick={() => switchMode('analyze-search')} className={getTabClass('analyze-search')}>
+                            <div className={`p-2 rounded-lg ${mode === 'analyze-search' ? 'bg-white/20' : 'bg-slate-700/50 group-hover:bg-slate-700'}`}>
+                                <Compass size={18} />
+                            </div>
+                            <div className="text-left">
+                                <div className="font-bold text-sm">Topic Research</div>
+                                <div className="text-[10px] opacity-75">Rank search results</div>
+                            </div>
+                        </button>
+                        <button onClick={() => switchMode('analyze-channels')} className={`${getTabClass('analyze-channels')} md:col-span-2`}>
+                            <div className={`p-2 rounded-lg ${mode === 'analyze-channels' ? 'bg-white/20' : 'bg-slate-700/50 group-hover:bg-slate-700'}`}>
+                                <GitCompare size={18} />
+                            </div>
+                            <div className="text-left">
+                                <div className="font-bold text-sm">Channel Comparison</div>
+                                <div className="text-[10px] opacity-75">Competitors side by side</div>
+                            </div>
+                        </button>
+                        <div className="md:col-span-2 px-1">
+                           <UsageStats youtubeUsed={quotaLedger.used} youtubeLimit={youtubeQuotaLimit} />
+                        </div>
                    </div>
               )}
           </div>
@@ -497,21 +1074,24 @@ export const YouTubeScraper: React.FC<YouTubeScraperProps> = ({ onBack, toolType
                 <div className="flex items-center justify-between">
                   <label className="block text-sm font-semibold text-slate-300 ml-1">
                     {mode === 'single-channel' && "Channel URL or Handle (e.g. @MrBeast)"}
-                    {(mode === 'multi-channel' || mode === 'analyze-multi') && "Paste Video URLs (one per line)"}
+                    {(mode === 'batch-videos' || mode === 'analyze-multi') && "Paste Video URLs (one per line)"}
+                    {mode === 'analyze-channels' && "Channel Handles, URLs or IDs (one per line)"}
                     {(mode === 'single-video' || mode === 'analyze-single') && "YouTube Video URL"}
+                    {(mode === 'playlist' || mode === 'analyze-playlist') && "Playlist URL or ID"}
+                    {isSearchMode && "Search Query"}
                   </label>
-                  {(mode === 'multi-channel' || mode === 'analyze-multi') && (
+                  {isListInput && (
                     <div className={`flex items-center gap-1.5 px-3 py-1 rounded-full ${theme.bgLight} border ${theme.border} text-xs font-medium ${theme.text}`}>
                       <Link2 size={12} />
-                      <span>{linkCount} Links Detected</span>
+                      <span>{linkCount} {mode === 'analyze-channels' ? 'Channels' : 'Links'} Detected</span>
                     </div>
                   )}
                 </div>
-                {(mode === 'multi-channel' || mode === 'analyze-multi') ? (
+                {isListInput ? (
                   <textarea
                     value={input}
                     onChange={(e) => setInput(e.target.value)}
-                    placeholder="https://youtube.com/shorts/...\nhttps://youtube.com/watch?v=..."
+                    placeholder={mode === 'analyze-channels' ? "@mkbhd\nhttps://youtube.com/@LinusTechTips\nUCBJycsmduvYEL83R_U4JriQ" : "https://youtube.com/shorts/...\nhttps://youtube.com/watch?v=..."}
                     className={`w-full h-32 bg-slate-950/50 border border-slate-700/80 rounded-2xl p-4 text-slate-200 focus:ring-2 ${theme.ringFocus} ${theme.borderFocus} outline-none transition-all resize-y font-mono text-sm placeholder:text-slate-600 shadow-inner custom-scrollbar`}
                     required
                   />
@@ -520,7 +1100,7 @@ export const YouTubeScraper: React.FC<YouTubeScraperProps> = ({ onBack, toolType
                     type="text"
                     value={input}
                     onChange={(e) => setInput(e.target.value)}
-                    placeholder={mode === 'single-channel' ? "https://youtube.com/@handle" : "https://youtube.com/watch?v=..."}
+                    placeholder={mode === 'single-channel' ? "https://youtube.com/@handle" : (mode === 'playlist' || mode === 'analyze-playlist') ? "https://youtube.com/playlist?list=..." : isSearchMode ? "e.g. budget travel japan" : "https://youtube.com/watch?v=..."}
                     className={`w-full bg-slate-950/50 border border-slate-700/80 rounded-2xl p-4 text-slate-200 focus:ring-2 ${theme.ringFocus} ${theme.borderFocus} outline-none transition-all placeholder:text-slate-600 shadow-inner`}
                     required
                   />
@@ -547,31 +1127,228 @@ export const YouTubeScraper: React.FC<YouTubeScraperProps> = ({ onBack, toolType
                       </button>
                     </div>
                   </div>
+                  {quantityControl}
                   <div className="space-y-3">
-                    <label className="text-sm font-medium text-slate-400">Quantity (Max 50)</label>
-                    <div className="flex items-center justify-between bg-slate-900/80 border border-slate-800/80 rounded-xl overflow-hidden h-[46px] w-full shadow-inner">
-                      <button 
+                    <label className="text-sm font-medium text-slate-400">Crawl Strategy</label>
+                    <div className="flex bg-slate-900/80 p-1.5 rounded-xl border border-slate-800/80 shadow-inner">
+                      <button
                         type="button"
-                        onClick={decrementLimit}
-                        className="h-full w-14 flex items-center justify-center text-slate-400 hover:text-white hover:bg-slate-800 active:bg-slate-700 transition-colors cursor-pointer border-r border-slate-800"
+                        onClick={() => setCrawlStrategy('uploads')}
+                        className={`flex-1 py-2 px-4 rounded-lg text-sm font-semibold transition-all cursor-pointer ${crawlStrategy === 'uploads' ? theme.activeTypeBtn : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'}`}
+                        title="Reads the uploads playlist: 1 quota unit per 50 videos"
                       >
-                        <Minus size={18} />
+                        Uploads
                       </button>
-                      <input
-                        type="number"
-                        value={limit}
-                        onChange={handleLimitChange}
-                        className="flex-1 bg-transparent text-center font-mono text-lg text-slate-200 font-bold focus:outline-none [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
-                      />
-                      <button 
+                      <button
+                        type="button"
+                        onClick={() => setCrawlStrategy('search')}
+                        className={`flex-1 py-2 px-4 rounded-lg text-sm font-semibold transition-all cursor-pointer ${crawlStrategy === 'search' ? theme.activeTypeBtn : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'}`}
+                        title="Uses YouTube search: 100 quota units per 50 videos"
+                      >
+                        Search
+                      </button>
+                    </div>
+                    <p className="text-[10px] text-slate-500 ml-1">
+                      {crawlStrategy === 'uploads' ? '~1 quota unit per page of 50 videos.' : '~100 quota units per page of 50 videos.'}
+                    </p>
+                  </div>
+                  <div className="space-y-3">
+                    <label className="text-sm font-medium text-slate-400">Order</label>
+                    <div className="flex bg-slate-900/80 p-1.5 rounded-xl border border-slate-800/80 shadow-inner">
+                      <button
                         type="button"
-                        onClick={incrementLimit}
-                        className="h-full w-14 flex items-center justify-center text-slate-400 hover:text-white hover:bg-slate-800 active:bg-slate-700 transition-colors cursor-pointer border-l border-slate-800"
+                        onClick={() => setSortOrder('views')}
+                        className={`flex-1 py-2 px-4 rounded-lg text-sm font-semibold transition-all cursor-pointer ${sortOrder === 'views' ? theme.activeTypeBtn : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'}`}
                       >
-                        <Plus size={18} />
+                        Top by Views
                       </button>
+                      <button
+                        type="button"
+                        onClick={() => setSortOrder('latest')}
+                        className={`flex-1 py-2 px-4 rounded-lg text-sm font-semibold transition-all cursor-pointer ${sortOrder === 'latest' ? theme.activeTypeBtn : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'}`}
+                      >
+                        Latest
+                      </button>
+                    </div>
+                    {crawlStrategy === 'uploads' && sortOrder === 'views' && (
+                      <p className="text-[10px] text-slate-500 ml-1">Reads the full uploads list before ranking.</p>
+                    )}
+                  </div>
+                </div>
+              )}
+              {isTranscript && (
+                <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto_auto] gap-4 items-end">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-slate-400 flex items-center gap-2 ml-1">
+                      <Languages size={14} /> Transcript Languages
+                      <span className="text-[10px] text-slate-600 font-normal">in fallback order</span>
+                    </label>
+                    <input
+                      type="text"
+                      value={transcriptLanguages}
+                      onChange={(e) => handleLanguagesChange(e.target.value)}
+                      placeholder="e.g. es, hi, ar, en (blank = provider default)"
+                      className={`w-full bg-slate-950/50 border border-slate-700/80 rounded-xl p-3 text-sm text-slate-200 font-mono focus:ring-2 ${theme.ringFocus} ${theme.borderFocus} outline-none placeholder:font-sans placeholder:text-slate-600`}
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleAllLanguagesChange(!fetchAllLanguages)}
+                    className={`h-[46px] px-4 rounded-xl text-sm font-semibold transition-all cursor-pointer border ${fetchAllLanguages ? `${theme.activeTypeBtn} border-transparent` : 'bg-slate-900/80 border-slate-800/80 text-slate-400 hover:text-slate-200 hover:bg-slate-800'}`}
+                    title="Fetch a separate transcript for every listed language (one provider call each)"
+                  >
+                    Fetch All Listed
+                  </button>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-slate-400 flex items-center gap-2 ml-1" title="Transcripts fetched in parallel">
+                      <Cpu size={14} /> Workers
+                    </label>
+                    <div className="flex items-center bg-slate-900/80 border border-slate-800/80 rounded-xl overflow-hidden h-[46px] shadow-inner">
+                      <button
+                        type="button"
+                        onClick={() => handleConcurrencyChange(transcriptConcurrency - 1)}
+                        disabled={transcriptConcurrency <= 1}
+                        className="h-full w-10 flex items-center justify-center text-slate-400 hover:text-white hover:bg-slate-800 transition-colors cursor-pointer border-r border-slate-800 disabled:opacity-40 disabled:cursor-not-allowed"
+                      >
+                        <Minus size={14} />
+                      </button>
+                      <span className="w-10 text-center font-mono text-sm text-slate-200 font-bold">{transcriptConcurrency}</span>
+                      <button
+                        type="button"
+                        onClick={() => handleConcurrencyChange(transcriptConcurrency + 1)}
+                        disabled={transcriptConcurrency >= MAX_CONCURRENCY}
+                        className="h-full w-10 flex items-center justify-center text-slate-400 hover:text-white hover:bg-slate-800 transition-colors cursor-pointer border-l border-slate-800 disabled:opacity-40 disabled:cursor-not-allowed"
+                      >
+                        <Plus size={14} />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              )}
+              {mode === 'analyze-channels' && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 p-6 bg-slate-950/30 rounded-2xl border border-slate-800/50">
+                  {quantityControl}
+                  <p className="text-xs text-slate-500 self-end pb-3">
+                    Latest uploads compared per channel, read from each uploads playlist (~1 quota unit per page of 50 videos per channel).
+                  </p>
+                </div>
+              )}
+              {isSearchMode && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 p-6 bg-slate-950/30 rounded-2xl border border-slate-800/50">
+                  <div className="space-y-3">
+                    <label className="text-sm font-medium text-slate-400">Sort Results By</label>
+                    <div className="flex bg-slate-900/80 p-1.5 rounded-xl border border-slate-800/80 shadow-inner">
+                      {([['relevance', 'Relevance'], ['date', 'Date'], ['viewCount', 'Views'], ['rating', 'Rating']] as [SearchOrder, string][]).map(([value, label]) => (
+                        <button
+                          key={value}
+                          type="button"
+                          onClick={() => setSearchFilters(prev => ({ ...prev, order: value }))}
+                          className={`flex-1 py-2 px-2 rounded-lg text-sm font-semibold transition-all cursor-pointer ${searchFilters.order === value ? theme.activeTypeBtn : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'}`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  {quantityControl}
+                  <div className="space-y-3">
+                    <label className="text-sm font-medium text-slate-400">Duration</label>
+                    <div className="flex bg-slate-900/80 p-1.5 rounded-xl border border-slate-800/80 shadow-inner">
+                      {([['any', 'Any'], ['short', '< 4 min'], ['medium', '4-20 min'], ['long', '> 20 min']] as [SearchDuration, string][]).map(([value, label]) => (
+                        <button
+                          key={value}
+                          type="button"
+                          onClick={() => setSearchFilters(prev => ({ ...prev, videoDuration: value }))}
+                          className={`flex-1 py-2 px-2 rounded-lg text-sm font-semibold transition-all cursor-pointer ${searchFilters.videoDuration === value ? theme.activeTypeBtn : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'}`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="space-y-3">
+                    <label className="text-sm font-medium text-slate-400">Published Between</label>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="date"
+                        value={searchFilters.publishedAfter || ''}
+                        onChange={(e) => setSearchFilters(prev => ({ ...prev, publishedAfter: e.target.value || undefined }))}
+                        className={`flex-1 min-w-0 bg-slate-900/80 border border-slate-800/80 rounded-xl p-2.5 text-sm text-slate-200 focus:ring-2 ${theme.ringFocus} outline-none [color-scheme:dark]`}
+                      />
+                      <span className="text-slate-600 text-xs">to</span>
+                      <input
+                        type="date"
+                        value={searchFilters.publishedBefore || ''}
+                        onChange={(e) => setSearchFilters(prev => ({ ...prev, publishedBefore: e.target.value || undefined }))}
+                        className={`flex-1 min-w-0 bg-slate-900/80 border border-slate-800/80 rounded-xl p-2.5 text-sm text-slate-200 focus:ring-2 ${theme.ringFocus} outline-none [color-scheme:dark]`}
+                      />
                     </div>
                   </div>
+                  <div className="space-y-3">
+                    <label className="text-sm font-medium text-slate-400">Region</label>
+                    <input
+                      type="text"
+                      maxLength={2}
+                      value={searchFilters.regionCode || ''}
+                      onChange={(e) => setSearchFilters(prev => ({ ...prev, regionCode: e.target.value || undefined }))}
+                      placeholder="Any (e.g. US, IN, BR)"
+                      className={`w-full bg-slate-900/80 border border-slate-800/80 rounded-xl p-2.5 text-sm text-slate-200 font-mono uppercase focus:ring-2 ${theme.ringFocus} outline-none placeholder:normal-case placeholder:font-sans placeholder:text-slate-600`}
+                    />
+                  </div>
+                  <div className="space-y-3">
+                    <label className="text-sm font-medium text-slate-400">Relevance Language</label>
+                    <input
+                      type="text"
+                      maxLength={7}
+                      value={searchFilters.relevanceLanguage || ''}
+                      onChange={(e) => setSearchFilters(prev => ({ ...prev, relevanceLanguage: e.target.value || undefined }))}
+                      placeholder="Any (e.g. en, es, hi)"
+                      className={`w-full bg-slate-900/80 border border-slate-800/80 rounded-xl p-2.5 text-sm text-slate-200 font-mono focus:ring-2 ${theme.ringFocus} outline-none placeholder:font-sans placeholder:text-slate-600`}
+                    />
+                  </div>
+                </div>
+              )}
+              <div className="flex flex-wrap gap-x-8 gap-y-3">
+                {!isTranscript && (
+                  <button
+                    type="button"
+                    onClick={() => setChannelBaselines(!channelBaselines)}
+                    className="flex items-center gap-3 ml-1 text-sm text-slate-400 hover:text-slate-200 transition-colors cursor-pointer"
+                    title="Compare each video with the median views of its channel's recent uploads (about 3 quota units per channel)"
+                  >
+                    <span className={`w-8 h-4 rounded-full relative transition-colors ${channelBaselines ? theme.activeTypeBtn : 'bg-slate-700'}`}>
+                      <span className={`absolute top-0.5 w-3 h-3 rounded-full bg-white transition-all ${channelBaselines ? 'left-4' : 'left-0.5'}`}></span>
+                    </span>
+                    <Scale size={14} /> Channel baselines
+                    <span className="text-[10px] text-slate-600">Outlier multiplier vs. each channel's recent median</span>
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setForceRefresh(!forceRefresh)}
+                  className="flex items-center gap-3 ml-1 text-sm text-slate-400 hover:text-slate-200 transition-colors cursor-pointer"
+                  title="Fetch everything from the APIs again, even if it is in the local cache (uses quota)"
+                >
+                  <span className={`w-8 h-4 rounded-full relative transition-colors ${forceRefresh ? theme.activeTypeBtn : 'bg-slate-700'}`}>
+                    <span className={`absolute top-0.5 w-3 h-3 rounded-full bg-white transition-all ${forceRefresh ? 'left-4' : 'left-0.5'}`}></span>
+                  </span>
+                  <DatabaseZap size={14} /> Force refresh
+                  <span className="text-[10px] text-slate-600">{isTranscript ? 'Ignore cached details and transcripts' : 'Ignore cached video stats'}</span>
+                </button>
+              </div>
+              {quotaWarning && (
+                <div className="p-4 bg-amber-500/10 border border-amber-500/20 rounded-xl flex flex-col sm:flex-row sm:items-center gap-3 text-amber-300 text-sm">
+                  <div className="flex items-center gap-3 flex-1">
+                    <AlertCircle size={20} className="shrink-0" />
+                    {quotaWarning}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={(e) => handleScrape(e, true)}
+                    className="shrink-0 px-4 py-2 rounded-lg border border-amber-500/30 bg-amber-500/10 hover:bg-amber-500/20 text-amber-200 text-xs font-bold transition-colors cursor-pointer"
+                  >
+                    Run Anyway
+                  </button>
                 </div>
               )}
               {error && (
@@ -603,6 +1380,15 @@ export const YouTubeScraper: React.FC<YouTubeScraperProps> = ({ onBack, toolType
                   </>
                 )}
               </button>
+              {loading && (
+                <button
+                  type="button"
+                  onClick={handleCancelRun}
+                  className="w-full py-3 rounded-2xl font-semibold text-sm border border-red-500/30 bg-red-500/10 text-red-300 hover:bg-red-500/20 transition-all flex items-center justify-center gap-2 cursor-pointer"
+                >
+                  <Ban size={16} /> Cancel Entire Run
+                </button>
+              )}
             </form>
           ) : (
              <div className="animate-fade-in relative z-10 space-y-8">
@@ -622,12 +1408,21 @@ export const YouTubeScraper: React.FC<YouTubeScraperProps> = ({ onBack, toolType
                              <div className="flex flex-col items-center p-3 bg-red-500/5 rounded-xl border border-red-500/10 min-w-[100px]">
                                  <span className="text-2xl font-bold text-red-400">{failed}</span>
                                  <span className="text-slate-500 font-medium">Failed</span>
+                                 {(failed > 0 || loading) && (
+                                     <button
+                                         onClick={loading ? handleCancelRun : handleRetryFailed}
+                                         className="mt-2 flex items-center gap-1 text-[10px] font-bold uppercase tracking-wide text-red-300 hover:text-white bg-red-500/10 hover:bg-red-500/20 border border-red-500/20 px-2 py-1 rounded-md transition-colors cursor-pointer"
+                                         title={loading ? "Cancel the retry run" : "Fetch every failed transcript again"}
+                                     >
+                                         {loading ? <><Ban size={10} /> Cancel</> : <><RefreshCw size={10} /> Retry All Failed</>}
+                                     </button>
+                                 )}
                              </div>
                          </div>
                      )}
                  </div>
 
-                 {failed > 0 && isTranscript && (
+                 {unsuccessfulVideos.length > 0 && isTranscript && (
                      <div className="bg-slate-950/50 rounded-xl border border-red-900/20 overflow-hidden">
                          <div className="bg-red-900/10 px-4 py-2 border-b border-red-900/20 flex items-center gap-2">
                              <AlertCircle size={14} className="text-red-400" />
@@ -643,13 +1438,13 @@ export const YouTubeScraper: React.FC<YouTubeScraperProps> = ({ onBack, toolType
                                      </tr>
                                  </thead>
                                  <tbody className="divide-y divide-slate-800/50 text-slate-300">
-                                     {failedVideos.map((video, idx) => (
+                                     {unsuccessfulVideos.map((video, idx) => (
                                          <tr key={video.id} className="hover:bg-slate-800/30">
                                              <td className="p-3 text-center text-slate-500">{idx + 1}</td>
                                              <td className="p-3 truncate max-w-[200px] text-blue-400 hover:underline">
                                                  <a href={video.url} target="_blank" rel="noreferrer">{video.url}</a>
                                              </td>
-                                             <td className="p-3 text-red-400">{video.transcript}</td>
+                                             <td className="p-3 text-red-400">{getTranscriptFailureMessage(video.transcriptStatus)}</td>
                                          </tr>
                                      ))}
                                  </tbody>
@@ -714,7 +1509,34 @@ export const YouTubeScraper: React.FC<YouTubeScraperProps> = ({ onBack, toolType
             onCancelVideo={handleCancelVideo}
             onRetryVideo={handleRetryVideo}
             isLoading={loading}
+            snapshots={isTranscript ? undefined : snapshots}
+            watchedIds={isTranscript ? undefined : watchedIds}
+            onToggleWatch={isTranscript ? undefined : handleToggleWatch}
+            scoringModel={scoringModel}
+            scoringWeights={scoringWeights[scoringModel]}
+            onScoringChange={isTranscript ? undefined : handleScoringChange}
+            channelProfiles={isTranscript ? undefined : channelProfiles}
         />
+        {isRunHistoryOpen && (
+          <RunHistory
+            toolType={toolType}
+            activeRunId={activeRun?.id || null}
+            isBusy={loading}
+            onOpen={openRun}
+            onResume={resumeRun}
+            onClose={() => setIsRunHistoryOpen(false)}
+          />
+        )}
+        {isWatchlistOpen && (
+          <Watchlist
+            youtubeApiKey={youtubeApiKey}
+            isSnapshotting={isSnapshotting}
+            onSnapshot={handleSnapshotWatchlist}
+            interval={watchlistInterval}
+            onIntervalChange={handleWatchlistIntervalChange}
+            onClose={() => setIsWatchlistOpen(false)}
+          />
+        )}
     </div>
   );
 };
\ No newline at end of file
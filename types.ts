@@ -1,3 +1,18 @@
+// One timed caption line. Times are in seconds.
+export interface TranscriptSegment {
+  start: number;
+  duration: number;
+  text: string;
+}
+
+// A transcript in one language
+export interface TranscriptTrack {
+  language: string;
+  languageInferred?: boolean; // The provider did not report a language; this is the one requested
+  text: string;
+  segments: TranscriptSegment[];
+}
+
 export interface VideoData {
   id: string;
   title: string;
@@ -10,36 +25,151 @@ export interface VideoData {
   duration: string; // ISO 8601 format
   channelTitle: string;
   channelId?: string;
+  channelSubscriberCount?: string; // Unset when the channel hides it
   tags?: string[];
   description?: string;
   categoryId?: string;
-  transcript?: string; // Placeholder for future feature
+  transcript?: string; // Plain text, segments joined. Only meaningful when the status is 'success'
+  transcriptStatus?: TranscriptStatus; // Unset until the transcript phase reaches this video
+  transcriptSegments?: TranscriptSegment[]; // Empty when the provider returned text only
+  transcriptLanguage?: string; // Language actually returned, e.g. "es"
+  transcriptTracks?: TranscriptTrack[]; // Set when several languages were fetched; first is the primary
+  transcriptProvider?: TranscriptProvider; // Provider that actually served the transcript
+  playlistTitle?: string;
+  playlistPosition?: number; // 1-based, set when scraped from a playlist
   
-  // Computed for Analysis
-  engagementRate?: number;
+  // Computed for Analysis (see scoringService)
+  engagementRate?: number; // Percent
   viralityScore?: number;
-  rank?: number;
+  score?: number; // From the scoring model chosen to rank by
+  viewsPerSubscriber?: number; // Needs a public subscriber count
+  channelViewShare?: number; // Percent of the channel's lifetime views
+  channelMedianViews?: number; // Median views of the channel's recent uploads
+  channelOutlierRatio?: number; // viewCount / channelMedianViews, e.g. 7.3
+  rank?: number; // 1-based position by `score`
 }
 
 export type ScrapeMode = 
   | 'single-video' 
-  | 'multi-channel' 
+  | 'batch-videos' // List of video URLs
   | 'single-channel'
+  | 'playlist'
+  | 'keyword-search'
   | 'analyze-single'
-  | 'analyze-multi';
+  | 'analyze-multi'
+  | 'analyze-playlist'
+  | 'analyze-search'
+  | 'analyze-channels'; // Side-by-side comparison of several channels
 
 export type VideoType = 'video' | 'short' | 'any';
 
-export type TranscriptProvider = 'rapid-api' | 'supadata';
+// How a channel's videos are discovered: `/search` (100 units/page) or the uploads playlist (1 unit/page)
+export type CrawlStrategy = 'search' | 'uploads';
+
+export type ChannelSortOrder = 'views' | 'latest';
+
+// YouTube `/search` duration buckets: short < 4 min, medium 4-20 min, long > 20 min
+export type SearchDuration = 'any' | 'short' | 'medium' | 'long';
+
+export type SearchOrder = 'relevance' | 'date' | 'viewCount' | 'rating';
+
+export interface SearchFilters {
+  query: string;
+  publishedAfter?: string; // YYYY-MM-DD or RFC 3339
+  publishedBefore?: string; // YYYY-MM-DD or RFC 3339
+  regionCode?: string; // ISO 3166-1 alpha-2, e.g. "US"
+  relevanceLanguage?: string; // ISO 639-1, e.g. "es"
+  videoDuration: SearchDuration;
+  order: SearchOrder;
+}
+
+export type TranscriptProvider = string; // Id of a provider in services/transcriptProviders
 
 export interface ScrapeSettings {
   mode: ScrapeMode;
   input: string; // URL or Handle or List of URLs
   limit: number;
   videoType: VideoType;
+  crawlStrategy?: CrawlStrategy;
+  sortOrder?: ChannelSortOrder;
+  fetchAll?: boolean;
+  channelBaselines?: boolean; // Analysis: compare each video to its channel's recent median
+  forceRefresh?: boolean; // Bypass the local video/transcript cache
+  searchFilters?: Omit<SearchFilters, 'query'>;
+  transcriptLanguages?: string[];
+  allLanguages?: boolean;
+}
+
+// 'running' outlives the page when a run is interrupted; such runs can be resumed
+export type RunStatus = 'running' | 'completed' | 'cancelled' | 'failed';
+
+// One scrape run as kept in the run history (IndexedDB)
+export interface SavedRun {
+  id: string;
+  toolType: 'transcript' | 'analysis';
+  status: RunStatus;
+  createdAt: string; // ISO 8601
+  updatedAt: string;
+  settings: ScrapeSettings;
+  videos: VideoData[];
+  error?: string;
 }
 
+// Channel-level details from the `channels` endpoint, cached per channel ID
+export interface ChannelProfile {
+  id: string;
+  title: string;
+  customUrl?: string; // "@handle"
+  thumbnail?: string;
+  subscriberCount?: string; // Unset when the channel hides it
+  viewCount: string;
+  videoCount: string;
+  publishedAt: string; // Channel creation date
+  country?: string;
+  uploadsPlaylistId?: string;
+}
+
+// One reading of a video's public counters, for growth over time
+export interface StatsSnapshot {
+  id: string; // `${videoId}@${takenAt}`
+  videoId: string;
+  channelId?: string;
+  takenAt: number; // epoch ms
+  viewCount: number;
+  likeCount: number;
+  commentCount: number;
+}
+
+// A video or channel whose stats are re-snapshotted. Channels snapshot their latest uploads.
+export interface WatchlistEntry {
+  id: string; // Video ID or channel ID
+  kind: 'video' | 'channel';
+  title: string;
+  addedAt: number; // epoch ms
+  lastSnapshotAt?: number;
+}
+
+export type ApiErrorCategory =
+  | 'auth'             // 401: bad or missing key
+  | 'quota'            // 402/403 or our own usage counter
+  | 'rate-limit'       // 429
+  | 'not-found'        // 404
+  | 'timeout'          // 408 or an async job that never finished
+  | 'server'           // 5xx
+  | 'network'          // fetch itself failed (offline, CORS)
+  | 'invalid-response' // 2xx with a body we could not read
+  | 'unknown';
+
 export interface ApiError {
   message: string;
-  code?: number;
-}
\ No newline at end of file
+  code?: number; // HTTP status, when there was one
+  category?: ApiErrorCategory;
+}
+
+// Lifecycle of one video's transcript
+export type TranscriptStatus =
+  | { state: 'pending' }
+  | { state: 'success' }
+  | { state: 'failed'; error: ApiError }
+  | { state: 'cancelled' }
+  | { state: 'unavailable'; reason: string }; // The video has no captions to fetch
\ No newline at end of file